@@ -1,14 +1,40 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import ImageUploader from './components/ImageUploader';
 import GeneratedImageGallery from './components/GeneratedImageGallery';
-import { generateImageVariations } from './services/geminiService';
+import { streamImageVariations, generateAngleVariation, refineImage, toGenerationFailure, defaultAnglePresets, defaultScenePresets, expandSceneMatrix, baseAngleId, DEFAULT_GENERATION_SETTINGS } from './services/geminiService';
+import { createThumbnail } from './services/anglePresetService';
+import { createPauseGate, type PauseGate } from './services/asyncUtils';
+import { createBatchJobs } from './services/batchService';
+import { createSessionId, saveSession } from './services/projectStore';
+import { classifyGenerationError, describeGenerationError } from './services/generationErrors';
+import { ENV_MOCK_CONFIG, getImageProvider } from './services/providers';
+import { createMockProvider, type MockProviderConfig } from './services/providers/mockProvider';
 import { downloadBrandedAlbum, computePalette, createDefaultPalette } from './services/zipService';
-import type { BatchCallbackPayload, ImageItem, AlbumOptions, BrandInfo, Palette, Typography } from './types';
-import { LogoIcon, SparklesIcon, DownloadIcon, EyeIcon } from './components/icons';
+import { removeBackground, DEFAULT_BACKGROUND_REMOVAL_OPTIONS, type BackgroundRemovalOptions } from './services/backgroundRemovalService';
+import { resolveImageSrc } from './services/imageEditService';
+import { activateVersion, addInactiveVersions, addVersion, getActiveVersionId, getParentVersion, isUnchangedSince, startVersionHistory } from './services/imageVersionService';
+import { checkImageQuality, isLikelyDrift, DEFAULT_QUALITY_SETTINGS, MAX_AUTO_REGENERATIONS, type QualityCheckSettings } from './services/qualityCheckService';
+import { createProductInfo } from './services/productService';
+import { watermarkForExport } from './services/watermarkService';
+import type { AnglePreset, BatchJob, GenerationEvent, GenerationFailure, GenerationErrorKind, GenerationSettings, GenerationSlot, GeneratedVariation, ImageEdit, ImageItem, ProductInfo, QualityReport, ReferenceImage, ProjectSession, AlbumOptions, BrandInfo, Palette, Typography } from './types';
+import { LogoIcon, SparklesIcon, DownloadIcon, EyeIcon, RefreshIcon, TrashIcon, PauseIcon, PlayIcon, CloseIcon, ClockIcon, ArchiveIcon } from './components/icons';
 import ProgressBar from './components/ProgressBar';
-import VariationSlider from './components/VariationSlider';
 import AlbumPreviewModal from './components/AlbumPreviewModal';
+import GenerationModeSelector from './components/GenerationModeSelector';
+import GenerationSettingsPanel from './components/GenerationSettingsPanel';
+import AnglePresetLibrary from './components/AnglePresetLibrary';
+import BatchQueue from './components/BatchQueue';
+import SessionHistory from './components/SessionHistory';
+import ReferenceImagesPanel from './components/ReferenceImagesPanel';
+import ProductInfoPanel from './components/ProductInfoPanel';
+import ScenePresetSelector from './components/ScenePresetSelector';
+import MarketplaceExportModal from './components/MarketplaceExportModal';
+import BackgroundRemovalControls from './components/BackgroundRemovalControls';
+import ImageEditorModal from './components/ImageEditorModal';
+import RefineImageModal from './components/RefineImageModal';
+import VersionHistoryModal from './components/VersionHistoryModal';
+import QualityCheckControls from './components/QualityCheckControls';
 
 // Custom hook for persisting state to localStorage, included here to avoid creating new files.
 function useLocalStorage<T>(key: string, initialValue: T): [T, (value: T | ((val: T) => T)) => void] {
@@ -23,13 +49,16 @@ function useLocalStorage<T>(key: string, initialValue: T): [T, (value: T | ((val
     });
 
     const setValue = (value: T | ((val: T) => T)) => {
-        try {
-            const valueToStore = value instanceof Function ? value(storedValue) : value;
-            setStoredValue(valueToStore);
-            window.localStorage.setItem(key, JSON.stringify(valueToStore));
-        } catch (error) {
-            console.error(error);
-        }
+        // Resolve functional updates against the latest state so async callbacks don't clobber each other
+        setStoredValue(prev => {
+            const valueToStore = value instanceof Function ? value(prev) : value;
+            try {
+                window.localStorage.setItem(key, JSON.stringify(valueToStore));
+            } catch (error) {
+                console.error(error);
+            }
+            return valueToStore;
+        });
     };
     
     return [storedValue, setValue];
@@ -39,12 +68,39 @@ const App: React.FC = () => {
   const [sourceImage, setSourceImage] = useState<string | null>(null);
   const [sourceMimeType, setSourceMimeType] = useState<string | null>(null);
   const [generatedImages, setGeneratedImages] = useState<ImageItem[]>([]);
-  const [failures, setFailures] = useState<string[]>([]);
+  const [referenceImages, setReferenceImages] = useState<ReferenceImage[]>([]);
+  const [productInfo, setProductInfo] = useState<ProductInfo>(createProductInfo);
+  const [failures, setFailures] = useState<GenerationFailure[]>([]);
+  const [criticalError, setCriticalError] = useState<string | null>(null);
+  const [runAngles, setRunAngles] = useState<AnglePreset[]>([]);
+  const [regeneratingImageIds, setRegeneratingImageIds] = useState<string[]>([]);
+  const [retryingAngleIds, setRetryingAngleIds] = useState<string[]>([]);
+  const nextImageId = useRef(1);
+  const qualityChecksInFlight = useRef(new Set<string>()); // srcs being compared with the reference
+  const autoRegenerations = useRef(new Map<string, number>());
+  const runControllerRef = useRef<AbortController | null>(null);
+  const pauseGateRef = useRef<PauseGate | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [isPaused, setIsPaused] = useState<boolean>(false);
   const [showAlbumEditor, setShowAlbumEditor] = useState<boolean>(false);
-  const [numVariations, setNumVariations] = useState<number>(5);
+  const [showMarketplaceExport, setShowMarketplaceExport] = useState<boolean>(false);
+  const [batchJobs, setBatchJobs] = useState<BatchJob[] | null>(null);
+  const [showHistory, setShowHistory] = useState<boolean>(false);
+  const [session, setSession] = useState<{ id: string; name: string; createdAt: number } | null>(null);
   const [progress, setProgress] = useState({ current: 0, total: 5 });
   const [statusMessage, setStatusMessage] = useState<string>('');
+  const [retryStats, setRetryStats] = useState({ retries: 0, rateLimited: 0 });
+  const [pendingSlots, setPendingSlots] = useState<GenerationSlot[]>([]);
+  const [runStartedAt, setRunStartedAt] = useState<number>(0);
+  const [isRemovingBackgrounds, setIsRemovingBackgrounds] = useState<boolean>(false);
+  const [editingImageId, setEditingImageId] = useState<string | null>(null);
+  const [refiningImageId, setRefiningImageId] = useState<string | null>(null);
+  const [versionsImageId, setVersionsImageId] = useState<string | null>(null);
+  // Latest gallery and run angles for callbacks that settle after a render, like quality checks
+  const generatedImagesRef = useRef(generatedImages);
+  generatedImagesRef.current = generatedImages;
+  const runAnglesRef = useRef(runAngles);
+  runAnglesRef.current = runAngles;
 
   const defaultAlbumOptions: AlbumOptions = {
     brandInfo: {
@@ -65,51 +121,241 @@ const App: React.FC = () => {
   };
 
   const [albumOptions, setAlbumOptions] = useLocalStorage<AlbumOptions>('albumBrandingOptions', defaultAlbumOptions);
+  const [providerId, setProviderId] = useLocalStorage<string>('imageProviderId', getImageProvider().id);
+  const [mockConfig, setMockConfig] = useLocalStorage<MockProviderConfig>('mockProviderConfig', ENV_MOCK_CONFIG);
+  const [anglePresets, setAnglePresets] = useLocalStorage<AnglePreset[]>('anglePresets', [...defaultAnglePresets]);
+  const [selectedAngleIds, setSelectedAngleIds] = useLocalStorage<string[]>('selectedAngleIds', defaultAnglePresets.slice(0, 5).map(p => p.id));
+  const [selectedSceneIds, setSelectedSceneIds] = useLocalStorage<string[]>('selectedSceneIds', []);
+  const [backgroundRemovalOptions, setBackgroundRemovalOptions] = useLocalStorage<BackgroundRemovalOptions>('backgroundRemovalOptions', DEFAULT_BACKGROUND_REMOVAL_OPTIONS);
+  const [qualitySettings, setQualitySettings] = useLocalStorage<QualityCheckSettings>('qualityCheckSettings', DEFAULT_QUALITY_SETTINGS);
+  // Read by quality checks that finish later, so a threshold or toggle changed mid-run applies right away
+  const qualitySettingsRef = useRef(qualitySettings);
+  qualitySettingsRef.current = qualitySettings;
+  const [generationSettings, setGenerationSettings] = useLocalStorage<GenerationSettings>('generationSettings', DEFAULT_GENERATION_SETTINGS);
+
+  // Selected angles, in library order, expanded once per selected scene
+  const selectedAngles = anglePresets.filter(p => selectedAngleIds.includes(p.id));
+  const selectedScenes = defaultScenePresets.filter(scene => selectedSceneIds.includes(scene.id));
+  const runMatrix = expandSceneMatrix(selectedAngles, selectedScenes);
+  const numVariations = runMatrix.length;
+
+  const formatDuration = (ms: number) => {
+    const seconds = Math.max(1, Math.round(ms / 1000));
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  };
+
+  const createImageId = () => `img-${nextImageId.current++}`;
+
+  const resolveProvider = () => (providerId === 'mock' ? createMockProvider(mockConfig) : getImageProvider(providerId));
+
+  // Settings that apply to a single generation (regenerate, retry, refine)
+  const singleGenerationOptions = () => ({
+    provider: resolveProvider(),
+    modelId: generationSettings.modelId || undefined,
+    seed: generationSettings.seed,
+    resolution: generationSettings.resolution,
+  });
+
+  // Replaces any previous failure for the same angle so each slot reports only its latest error
+  const upsertFailure = (list: GenerationFailure[], failure: GenerationFailure) =>
+    [...list.filter(f => f.angle.id !== failure.angle.id), failure];
+
+  // Inserts an image at the position its angle had in the run, keeping the gallery order stable
+  const insertInRunOrder = (images: ImageItem[], item: ImageItem, angles: AnglePreset[] = runAngles): ImageItem[] => {
+    const runAngleIds = angles.map(angle => angle.id);
+    const order = (image: ImageItem) => (image.angle ? runAngleIds.indexOf(image.angle.id) : -1);
+    const target = order(item);
+    const position = images.findIndex(image => order(image) > target);
+    return position === -1 ? [...images, item] : [...images.slice(0, position), item, ...images.slice(position)];
+  };
+
+  // Auto-save the current session to the local project store once generation settles
+  useEffect(() => {
+    if (!session || !sourceImage || !sourceMimeType || isLoading) return;
+    const timer = setTimeout(() => {
+      saveSession({
+        ...session,
+        updatedAt: Date.now(),
+        sourceImage,
+        sourceMimeType,
+        references: referenceImages,
+        angles: runAngles,
+        providerId,
+        modelId: generatedImages.find(image => image.metadata?.modelId)?.metadata?.modelId,
+        settings: generationSettings,
+        product: productInfo,
+        images: generatedImages,
+        failures,
+      }).catch(error => console.error("Failed to save session:", error));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [session, sourceImage, sourceMimeType, referenceImages, isLoading, runAngles, providerId, generationSettings, productInfo, generatedImages, failures]);
 
   const handleImageUpload = (file: File) => {
     const reader = new FileReader();
     reader.onloadend = () => {
+      setSession({ id: createSessionId(), name: file.name.replace(/\.[^.]+$/, '') || 'Untitled session', createdAt: Date.now() });
+      setRunAngles([]);
       setSourceImage(reader.result as string);
       setSourceMimeType(file.type);
+      setReferenceImages([]);
+      setProductInfo(createProductInfo());
       setGeneratedImages([]);
       setFailures([]);
+      setCriticalError(null);
       setProgress({ current: 0, total: numVariations });
       setStatusMessage('');
     };
     reader.readAsDataURL(file);
   };
 
+  const handleImagesUpload = async (files: File[]) => {
+    setBatchJobs(await createBatchJobs(files, selectedAngleIds));
+  };
+
   const handleGeneration = async () => {
-    if (!sourceImage || !sourceMimeType) return;
+    if (!sourceImage || !sourceMimeType || numVariations === 0) return;
+
+    const controller = new AbortController();
+    const pauseGate = createPauseGate();
+    runControllerRef.current = controller;
+    pauseGateRef.current = pauseGate;
+    const angles = runMatrix;
 
     setIsLoading(true);
+    setIsPaused(false);
     setGeneratedImages([]);
     setFailures([]);
+    setCriticalError(null);
+    setRunAngles(angles);
+    setPendingSlots(angles.map((angle, angleIndex) => ({ angle, angleIndex, status: 'queued', attempt: 0 })));
+    setRunStartedAt(Date.now());
     setProgress({ current: 0, total: numVariations });
+    setRetryStats({ retries: 0, rateLimited: 0 });
     setStatusMessage('Initializing generation...');
 
-    const onBatchComplete = (result: BatchCallbackPayload) => {
-        setGeneratedImages(prev => [
-            ...prev, 
-            ...result.successes.map((src, i) => ({
-                id: `img-${prev.length + i + 1}`,
-                src,
-                label: `Variation ${prev.length + i + 1}`
-            }))
-        ]);
-        setFailures(prev => [...prev, ...result.failures]);
-        setProgress(prev => ({ ...prev, current: prev.current + result.successes.length + result.failures.length }));
-        setStatusMessage(`Processing... Batch complete.`);
+    const updateSlot = (angleIndex: number, update: Partial<GenerationSlot>) =>
+        setPendingSlots(prev => prev.map(slot => (slot.angleIndex === angleIndex ? { ...slot, ...update } : slot)));
+    const settleSlot = (angleIndex: number) => {
+        setPendingSlots(prev => prev.filter(slot => slot.angleIndex !== angleIndex));
+        setProgress(prev => ({ ...prev, current: prev.current + 1 }));
+    };
+
+    // With several candidates per angle, keep the one closest to the reference
+    const candidateScores = new Map<string, QualityReport>();
+    const selectCandidate = async (candidates: GeneratedVariation[]) => {
+        try {
+            const reports = await Promise.all(candidates.map(candidate => checkImageQuality(sourceImage, candidate.src)));
+            reports.forEach((report, index) => candidateScores.set(candidates[index].src, report));
+            return reports.reduce((best, report, index) => (report.score > reports[best].score ? index : best), 0);
+        } catch (error) {
+            // A failed comparison must not fail the angle: keep the first candidate unranked
+            console.error("Failed to rank candidates:", error);
+            return 0;
+        }
+    };
+
+    const onEvent = (event: GenerationEvent) => {
+        // Events from a run that was discarded (e.g. a new image was uploaded) are dropped
+        if (runControllerRef.current !== controller) return;
+        switch (event.type) {
+            case 'started':
+                updateSlot(event.angleIndex, { status: 'running', startedAt: Date.now() });
+                setStatusMessage(`Generating ${event.angle.name}...`);
+                break;
+            case 'attempt':
+                updateSlot(event.angleIndex, { status: 'running', attempt: event.attempt, retryAt: undefined });
+                break;
+            case 'retrying': {
+                const { retry } = event;
+                updateSlot(event.angleIndex, { status: 'retrying', retryAt: Date.now() + retry.delayMs });
+                setRetryStats(prev => ({ retries: prev.retries + 1, rateLimited: prev.rateLimited + (retry.rateLimited ? 1 : 0) }));
+                const seconds = Math.ceil(retry.delayMs / 1000);
+                setStatusMessage(retry.rateLimited
+                    ? `Rate limited on ${event.angle.name}. Waiting ${seconds}s before retrying...`
+                    : `Retrying ${event.angle.name} in ${seconds}s (attempt ${retry.attempt + 1}/${retry.maxAttempts})...`);
+                break;
+            }
+            case 'succeeded': {
+                const { variation } = event;
+                // A ranked candidate already has its report, so the quality effect doesn't check it again
+                const quality = candidateScores.get(variation.src);
+                const image = startVersionHistory({
+                    id: createImageId(),
+                    src: variation.src,
+                    label: event.angle.name,
+                    angle: event.angle,
+                    metadata: variation.metadata,
+                    quality,
+                }, variation.prompt);
+                // Candidates that were not picked stay in the history, with the score they were ranked by
+                const alternatives = event.candidates
+                    .filter(candidate => candidate !== variation)
+                    .map(candidate => ({ kind: 'generation' as const, src: candidate.src, metadata: candidate.metadata, prompt: candidate.prompt, quality: candidateScores.get(candidate.src) }));
+                const stored = alternatives.length > 0 ? addInactiveVersions(image, alternatives) : image;
+                setGeneratedImages(prev => insertInRunOrder(prev, stored, angles));
+                settleSlot(event.angleIndex);
+                if (quality) autoRegenerateIfDrifted(stored, quality);
+                // Presets without a thumbnail take one from their first successful generation
+                if (!event.angle.thumbnail) {
+                    createThumbnail(variation.src)
+                        .then(thumbnail => setAnglePresets(prev => prev.map(p => (p.id === baseAngleId(event.angle) && !p.thumbnail ? { ...p, thumbnail } : p))))
+                        .catch(error => console.error("Failed to create angle thumbnail:", error));
+                }
+                break;
+            }
+            case 'failed':
+                setFailures(prev => [...prev, event.failure]);
+                settleSlot(event.angleIndex);
+                break;
+        }
     };
 
     try {
-      await generateImageVariations(sourceImage, sourceMimeType, numVariations, onBatchComplete);
+      await streamImageVariations(sourceImage, sourceMimeType, angles, onEvent, {
+        provider: resolveProvider(),
+        signal: controller.signal,
+        pauseGate,
+        references: referenceImages,
+        palette: albumOptions.palette,
+        modelId: generationSettings.modelId || undefined,
+        concurrency: generationSettings.concurrency,
+        candidatesPerAngle: generationSettings.candidatesPerAngle,
+        seed: generationSettings.seed,
+        resolution: generationSettings.resolution,
+        selectCandidate,
+      });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
-      setFailures(prev => [...prev, `A critical error stopped the process: ${errorMessage}`]);
+      setCriticalError(`A critical error stopped the process: ${errorMessage}`);
     } finally {
-      setIsLoading(false);
-      setStatusMessage('Generation complete!');
+      if (runControllerRef.current === controller) {
+        runControllerRef.current = null;
+        pauseGateRef.current = null;
+        setIsLoading(false);
+        setIsPaused(false);
+        setPendingSlots([]);
+        setStatusMessage(controller.signal.aborted ? 'Generation cancelled.' : 'Generation complete!');
+      }
+    }
+  };
+
+  const handleCancelGeneration = () => {
+    runControllerRef.current?.abort();
+    setStatusMessage('Cancelling...');
+  };
+
+  const handleTogglePause = () => {
+    const gate = pauseGateRef.current;
+    if (!gate) return;
+    if (gate.isPaused()) {
+      gate.resume();
+      setIsPaused(false);
+      setStatusMessage('Resuming...');
+    } else {
+      gate.pause();
+      setIsPaused(true);
+      setStatusMessage('Paused. Requests already in flight will finish.');
     }
   };
 
@@ -117,23 +363,229 @@ const App: React.FC = () => {
     setGeneratedImages(reorderedImages);
   };
 
+  // `onlyIfUnchanged` drops the result when the user moved the image to another version meanwhile
+  const handleRegenerate = async (image: ImageItem, options?: { onlyIfUnchanged?: boolean }) => {
+    if (!sourceImage || !sourceMimeType || !image.angle) return;
+    const angle = image.angle;
+    const applies = (img: ImageItem) => img.id === image.id && (!options?.onlyIfUnchanged || isUnchangedSince(img, image));
+    setRegeneratingImageIds(prev => [...prev, image.id]);
+    try {
+      const variation = await generateAngleVariation(sourceImage, sourceMimeType, angle, { ...singleGenerationOptions(), references: referenceImages, palette: albumOptions.palette });
+      setGeneratedImages(prev => prev.map(img => (applies(img) ? addVersion(img, { kind: 'regeneration', src: variation.src, metadata: variation.metadata, prompt: variation.prompt }) : img)));
+      setFailures(prev => prev.filter(f => f.angle.id !== angle.id));
+    } catch (error) {
+      setFailures(prev => upsertFailure(prev, toGenerationFailure(error, angle, runAnglesRef.current.findIndex(a => a.id === angle.id))));
+    } finally {
+      setRegeneratingImageIds(prev => prev.filter(id => id !== image.id));
+    }
+  };
+
+  const handleRetryFailure = async (failure: GenerationFailure) => {
+    if (!sourceImage || !sourceMimeType) return;
+    const { angle } = failure;
+    setRetryingAngleIds(prev => [...prev, angle.id]);
+    try {
+      const variation = await generateAngleVariation(sourceImage, sourceMimeType, angle, { ...singleGenerationOptions(), references: referenceImages, palette: albumOptions.palette });
+      setGeneratedImages(prev => {
+        // A failed regeneration still has its previous image in the gallery: replace it in place
+        const existing = prev.find(img => img.angle?.id === angle.id);
+        if (existing) return prev.map(img => (img.id === existing.id ? addVersion(img, { kind: 'regeneration', src: variation.src, metadata: variation.metadata, prompt: variation.prompt }) : img));
+        return insertInRunOrder(prev, startVersionHistory({ id: createImageId(), src: variation.src, label: angle.name, angle, metadata: variation.metadata }, variation.prompt));
+      });
+      setFailures(prev => prev.filter(f => f.angle.id !== angle.id));
+    } catch (error) {
+      setFailures(prev => upsertFailure(prev, toGenerationFailure(error, angle, failure.angleIndex)));
+    } finally {
+      setRetryingAngleIds(prev => prev.filter(id => id !== angle.id));
+    }
+  };
+
+  const handleRetryAllFailures = () => {
+    failures.filter(f => f.retryable && !retryingAngleIds.includes(f.angle.id)).forEach(handleRetryFailure);
+  };
+
+  const handleRemoveBackground = async (image: ImageItem) => {
+    if (image.originalSrc) return;
+    setRegeneratingImageIds(prev => [...prev, image.id]);
+    try {
+      const cutout = await removeBackground(image.src, backgroundRemovalOptions);
+      // Compare against the source we started from: a regeneration in the meantime wins
+      setGeneratedImages(prev => prev.map(img => (img.id === image.id && img.src === image.src ? { ...img, src: cutout, originalSrc: image.src } : img)));
+    } catch (error) {
+      console.error("Failed to remove background:", error);
+      setCriticalError(`Could not remove the background of "${image.label}".`);
+    } finally {
+      setRegeneratingImageIds(prev => prev.filter(id => id !== image.id));
+    }
+  };
+
+  const handleRemoveAllBackgrounds = async () => {
+    setIsRemovingBackgrounds(true);
+    // One at a time: the worker is shared and full-size canvases are memory hungry
+    for (const image of generatedImages.filter(img => !img.originalSrc && !regeneratingImageIds.includes(img.id))) {
+      await handleRemoveBackground(image);
+    }
+    setIsRemovingBackgrounds(false);
+  };
+
+  // Regenerates a flagged image when auto-regeneration is on, at most MAX_AUTO_REGENERATIONS times per image
+  const autoRegenerateIfDrifted = (image: ImageItem, report: QualityReport) => {
+    const { autoRegenerate, threshold } = qualitySettingsRef.current;
+    if (!autoRegenerate || !isLikelyDrift(report, threshold) || !image.angle) return;
+    const count = autoRegenerations.current.get(image.id) ?? 0;
+    if (count >= MAX_AUTO_REGENERATIONS) return;
+    autoRegenerations.current.set(image.id, count + 1);
+    handleRegenerate(image, { onlyIfUnchanged: true });
+  };
+
+  // Compare every new image (or new version) with the reference; flagged ones can be regenerated automatically
+  useEffect(() => {
+    if (!sourceImage) return;
+    generatedImages
+      .filter(image => !image.quality && !qualityChecksInFlight.current.has(image.src))
+      .forEach(image => {
+        qualityChecksInFlight.current.add(image.src);
+        checkImageQuality(sourceImage, image.src)
+          .then(report => {
+            setGeneratedImages(prev => prev.map(img => (img.id === image.id && img.src === image.src ? { ...img, quality: report } : img)));
+            // Images deleted, or moved to another version while being scored, are left as the user has them
+            const current = generatedImagesRef.current.find(img => img.id === image.id);
+            if (current && isUnchangedSince(current, image)) autoRegenerateIfDrifted(image, report);
+          })
+          .catch(error => console.error("Failed to check image quality:", error))
+          .finally(() => qualityChecksInFlight.current.delete(image.src));
+      });
+  }, [generatedImages, sourceImage]);
+
+  // Saved edits become a new version on top of the one that was edited, so earlier looks stay in the history
+  const handleSaveEdits = (imageId: string, edits: ImageEdit[]) => {
+    setGeneratedImages(prev => prev.map(img => {
+      if (img.id !== imageId || JSON.stringify(img.edits ?? []) === JSON.stringify(edits)) return img;
+      return addVersion(img, {
+        kind: 'edit',
+        src: img.src,
+        metadata: img.metadata,
+        originalSrc: img.originalSrc,
+        edits: edits.length > 0 ? edits : undefined,
+        quality: img.quality,
+        parentId: getActiveVersionId(img),
+      });
+    }));
+    setEditingImageId(null);
+  };
+
+  const handleRefine = async (image: ImageItem, instruction: string) => {
+    if (!sourceImage || !sourceMimeType) return;
+    setRefiningImageId(null);
+    setRegeneratingImageIds(prev => [...prev, image.id]);
+    try {
+      // Refine what the user sees: the edited pixels when the image has an edit stack
+      const refined = await refineImage(await resolveImageSrc(image), sourceImage, sourceMimeType, instruction, { ...singleGenerationOptions(), seed: undefined });
+      const parentId = getActiveVersionId(image);
+      setGeneratedImages(prev => prev.map(img => (img.id === image.id ? addVersion(img, { kind: 'refinement', src: refined.src, metadata: refined.metadata, prompt: refined.prompt, parentId, instruction }) : img)));
+    } catch (error) {
+      console.error("Failed to refine image:", error);
+      setCriticalError(`Could not refine "${image.label}": ${describeGenerationError(classifyGenerationError(error).kind)}`);
+    } finally {
+      setRegeneratingImageIds(prev => prev.filter(id => id !== image.id));
+    }
+  };
+
+  const handlePickFinalVersion = (imageId: string, versionId: string) => {
+    setGeneratedImages(prev => prev.map(img => (img.id === imageId ? activateVersion(img, versionId) : img)));
+  };
+
+  const handleRevertToParent = (image: ImageItem) => {
+    const parent = getParentVersion(image);
+    if (parent) handlePickFinalVersion(image.id, parent.id);
+  };
+
+  const handleDeleteImage = (image: ImageItem) => {
+    setGeneratedImages(prev => prev.filter(img => img.id !== image.id));
+  };
+
+  const handleDismissFailure = (failure: GenerationFailure) => {
+    setFailures(prev => prev.filter(f => f !== failure));
+  };
+
+  const handleOpenSession = (saved: ProjectSession) => {
+    runControllerRef.current?.abort();
+    runControllerRef.current = null;
+    pauseGateRef.current = null;
+    // Keep new image ids clear of the ones stored in the session
+    const maxId = Math.max(0, ...saved.images.map(image => parseInt(image.id.replace(/^img-/, ''), 10) || 0));
+    nextImageId.current = Math.max(nextImageId.current, maxId + 1);
+    setSession({ id: saved.id, name: saved.name, createdAt: saved.createdAt });
+    setSourceImage(saved.sourceImage);
+    setSourceMimeType(saved.sourceMimeType);
+    setReferenceImages(saved.references ?? []);
+    if (saved.settings) setGenerationSettings(saved.settings);
+    setProductInfo(saved.product ?? createProductInfo());
+    setGeneratedImages(saved.images);
+    setFailures(saved.failures);
+    setRunAngles(saved.angles);
+    setCriticalError(null);
+    setIsLoading(false);
+    setIsPaused(false);
+    setPendingSlots([]);
+    setBatchJobs(null);
+    setShowHistory(false);
+    setProgress({ current: 0, total: saved.angles.length });
+    setStatusMessage('');
+  };
+
+  const handleSessionRenamed = (id: string, name: string) => {
+    setSession(prev => (prev && prev.id === id ? { ...prev, name } : prev));
+  };
+
+  const handleSessionDeleted = (id: string) => {
+    // Stop auto-saving so the deleted session isn't recreated; the work stays on screen
+    setSession(prev => (prev && prev.id === id ? null : prev));
+  };
+
   const resetState = () => {
+    runControllerRef.current?.abort();
+    runControllerRef.current = null;
+    pauseGateRef.current = null;
+    setIsPaused(false);
+    setSession(null);
     setSourceImage(null);
     setSourceMimeType(null);
+    setReferenceImages([]);
+    setProductInfo(createProductInfo());
     setGeneratedImages([]);
     setFailures([]);
+    setCriticalError(null);
     setIsLoading(false);
-    setNumVariations(5);
-    setProgress({ current: 0, total: 5 });
+    setPendingSlots([]);
+    setProgress({ current: 0, total: numVariations });
     setStatusMessage('');
   };
 
   const getGenerateButtonText = () => {
-    if (isLoading) return 'Generating...';
+    if (isLoading) return isPaused ? 'Paused' : 'Generating...';
+    if (numVariations === 0) return 'Select at Least 1 Angle';
     if (numVariations === 1) return 'Generate 1 Variation';
     return `Generate ${numVariations} Variations`;
   };
 
+  // Failure report grouped by error kind, keeping first-seen order; failures inside a group follow the run order
+  const failureGroups = failures.reduce<[GenerationErrorKind, GenerationFailure[]][]>((groups, failure) => {
+    const group = groups.find(([kind]) => kind === failure.kind);
+    if (group) group[1].push(failure);
+    else groups.push([failure.kind, [failure]]);
+    return groups;
+  }, []).map(([kind, group]) => [kind, [...group].sort((a, b) => a.angleIndex - b.angleIndex)] as [GenerationErrorKind, GenerationFailure[]]);
+  const retryableFailureCount = failures.filter(f => f.retryable).length;
+  const editingImage = editingImageId ? generatedImages.find(img => img.id === editingImageId) : undefined;
+  const refiningImage = refiningImageId ? generatedImages.find(img => img.id === refiningImageId) : undefined;
+  const versionsImage = versionsImageId ? generatedImages.find(img => img.id === versionsImageId) : undefined;
+
+  // Remaining time from the run's throughput so far (paused time counts against it)
+  const etaMs = isLoading && !isPaused && progress.current > 0 && progress.current < progress.total
+    ? ((Date.now() - runStartedAt) / progress.current) * (progress.total - progress.current)
+    : null;
+
   const allImagesForAlbum: ImageItem[] = sourceImage ? [{ id: 'original', src: sourceImage, label: 'Original' }, ...generatedImages] : [];
 
   return (
@@ -144,10 +596,41 @@ const App: React.FC = () => {
             <LogoIcon />
             <h1 className="text-xl sm:text-2xl font-bold text-white tracking-tight">Product Shot Generator</h1>
           </div>
+          <div className="flex items-center gap-3">
+            {session && !showHistory && <span className="hidden sm:block text-sm text-slate-400 truncate max-w-xs">{session.name}</span>}
+            {!batchJobs && (
+            <button
+                onClick={() => setShowHistory(prev => !prev)}
+                className={`flex items-center gap-2 font-medium py-2 px-3 rounded-lg transition-colors ${showHistory ? 'bg-blue-600 text-white' : 'bg-slate-700/50 text-slate-300 hover:bg-slate-700'}`}
+            >
+                <ClockIcon className="w-5 h-5" />
+                History
+            </button>
+            )}
+          </div>
         </header>
 
         <main>
-          {!sourceImage ? (
+          {showHistory ? (
+            <SessionHistory
+              currentSessionId={session?.id ?? null}
+              onOpen={handleOpenSession}
+              onRenamed={handleSessionRenamed}
+              onDeleted={handleSessionDeleted}
+              onClose={() => setShowHistory(false)}
+            />
+          ) : batchJobs ? (
+            <BatchQueue
+              initialJobs={batchJobs}
+              anglePresets={anglePresets}
+              defaultAngleIds={selectedAngleIds}
+              resolveProvider={resolveProvider}
+              generationSettings={generationSettings}
+              albumOptions={albumOptions}
+              onAlbumOptionsChange={setAlbumOptions}
+              onExit={() => setBatchJobs(null)}
+            />
+          ) : !sourceImage ? (
             <div className="text-center max-w-3xl mx-auto">
                 <div className="inline-flex items-center justify-center bg-blue-600/10 text-blue-400 rounded-full px-4 py-1 mb-6">
                   <SparklesIcon className="w-5 h-5 mr-2" />
@@ -159,42 +642,96 @@ const App: React.FC = () => {
                 <p className="text-lg text-slate-400 mb-10">
                   Upload a single image and our AI will generate a complete set of studio-lit photos from multiple angles.
                 </p>
-                <ImageUploader onImageUpload={handleImageUpload} />
+                <ImageUploader onImageUpload={handleImageUpload} onImagesUpload={handleImagesUpload} />
             </div>
           ) : (
             <div className="flex flex-col lg:flex-row gap-8 lg:gap-12">
               {/* --- Control Panel (Left) --- */}
               <aside className="lg:w-1/3 xl:w-1/4">
                 <div className="sticky top-8 space-y-6">
-                  <div>
-                    <h3 className="text-lg font-semibold mb-3 text-slate-200">Reference Image</h3>
-                    <div className="aspect-square bg-slate-800 rounded-xl overflow-hidden ring-2 ring-slate-700">
-                      <img src={sourceImage} alt="Source Product" className="w-full h-full object-cover" />
-                    </div>
+                  <ReferenceImagesPanel
+                    sourceImage={sourceImage}
+                    references={referenceImages}
+                    onReferencesChange={setReferenceImages}
+                    disabled={isLoading}
+                  />
+
+                  <div className="bg-slate-800/50 p-5 rounded-xl border border-slate-700">
+                    <ProductInfoPanel product={productInfo} onProductChange={setProductInfo} />
                   </div>
                   
                   <div className="bg-slate-800/50 p-5 rounded-xl border border-slate-700 space-y-5">
-                      <VariationSlider
-                        label="Number of Variations"
-                        value={numVariations}
-                        onChange={(e) => setNumVariations(parseInt(e.target.value, 10))}
-                        min={1}
-                        max={10}
+                      <AnglePresetLibrary
+                        presets={anglePresets}
+                        selectedIds={selectedAngleIds}
+                        onPresetsChange={setAnglePresets}
+                        onSelectionChange={setSelectedAngleIds}
+                        disabled={isLoading}
+                      />
+                      <ScenePresetSelector
+                        scenes={defaultScenePresets}
+                        selectedIds={selectedSceneIds}
+                        onSelectionChange={setSelectedSceneIds}
+                        brandColor={albumOptions.palette.primary}
+                        angleCount={selectedAngles.length}
+                        disabled={isLoading}
+                      />
+                      <QualityCheckControls
+                        settings={qualitySettings}
+                        onSettingsChange={setQualitySettings}
+                        flaggedCount={generatedImages.filter(img => img.quality && isLikelyDrift(img.quality, qualitySettings.threshold)).length}
+                      />
+                      <GenerationModeSelector
+                        providerId={providerId}
+                        onProviderChange={setProviderId}
+                        mockConfig={mockConfig}
+                        onMockConfigChange={setMockConfig}
+                        disabled={isLoading}
+                      />
+                      <GenerationSettingsPanel
+                        settings={generationSettings}
+                        onSettingsChange={setGenerationSettings}
+                        capabilities={resolveProvider().capabilities}
                         disabled={isLoading}
                       />
                       <button
                           onClick={handleGeneration}
-                          disabled={isLoading}
+                          disabled={isLoading || numVariations === 0}
                           className="w-full flex items-center justify-center gap-2.5 bg-blue-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-blue-500 transition-all duration-200 transform hover:scale-[1.02] disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed disabled:scale-100"
                       >
                           <SparklesIcon />
                           {getGenerateButtonText()}
                       </button>
+                      {isLoading && (
+                        <div className="flex gap-2">
+                          <button
+                              onClick={handleTogglePause}
+                              className="flex-1 flex items-center justify-center gap-2 bg-slate-700 text-slate-200 font-medium py-2.5 px-4 rounded-lg hover:bg-slate-600 transition-colors"
+                          >
+                              {isPaused ? <PlayIcon className="w-4 h-4" /> : <PauseIcon className="w-4 h-4" />}
+                              {isPaused ? 'Resume' : 'Pause'}
+                          </button>
+                          <button
+                              onClick={handleCancelGeneration}
+                              className="flex-1 flex items-center justify-center gap-2 bg-red-600/20 text-red-300 font-medium py-2.5 px-4 rounded-lg hover:bg-red-600/30 transition-colors"
+                          >
+                              <CloseIcon className="w-4 h-4" />
+                              Cancel
+                          </button>
+                        </div>
+                      )}
                   </div>
                   
                   <div className="space-y-3">
                     {generatedImages.length > 0 && !isLoading && (
                         <>
+                           <BackgroundRemovalControls
+                              options={backgroundRemovalOptions}
+                              onOptionsChange={setBackgroundRemovalOptions}
+                              onApplyToAll={handleRemoveAllBackgrounds}
+                              pendingCount={generatedImages.filter(img => !img.originalSrc).length}
+                              isProcessing={isRemovingBackgrounds}
+                            />
                            <button
                               onClick={() => setShowAlbumEditor(true)}
                               className="w-full flex items-center justify-center gap-2.5 bg-transparent border border-slate-600 text-slate-200 font-semibold py-3 px-4 rounded-lg hover:bg-slate-700 transition-colors disabled:bg-slate-800 disabled:border-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed"
@@ -202,11 +739,17 @@ const App: React.FC = () => {
                                 <EyeIcon />
                                 Customize & Export Album
                             </button>
+                           <button
+                              onClick={() => setShowMarketplaceExport(true)}
+                              className="w-full flex items-center justify-center gap-2.5 bg-transparent border border-slate-600 text-slate-200 font-semibold py-3 px-4 rounded-lg hover:bg-slate-700 transition-colors"
+                            >
+                                <ArchiveIcon />
+                                Marketplace Export
+                            </button>
                         </>
                       )}
                       <button
                           onClick={resetState}
-                          disabled={isLoading}
                           className="w-full bg-slate-700/50 text-slate-300 font-medium py-3 px-4 rounded-lg hover:bg-slate-700 transition-colors disabled:opacity-50"
                       >
                           Upload Another Image
@@ -221,22 +764,76 @@ const App: React.FC = () => {
                   {isLoading && (
                       <div className="w-full bg-slate-800 p-6 rounded-xl mb-6">
                          <ProgressBar current={progress.current} total={progress.total} />
-                         <p className="text-center text-slate-400 mt-3 text-sm">{statusMessage} ({progress.current}/{progress.total})</p>
+                         <p className="text-center text-slate-400 mt-3 text-sm">
+                           {statusMessage} ({progress.current}/{progress.total})
+                           {etaMs !== null && ` · ~${formatDuration(etaMs)} left`}
+                         </p>
+                         {retryStats.retries > 0 && (
+                           <p className="text-center text-amber-300/80 mt-1 text-xs">
+                             {retryStats.retries} {retryStats.retries === 1 ? 'retry' : 'retries'}
+                             {retryStats.rateLimited > 0 && ` · ${retryStats.rateLimited} rate-limited`}
+                           </p>
+                         )}
                       </div>
                   )}
                  
                   <GeneratedImageGallery 
                     images={generatedImages}
                     onReorder={handleImageReorder}
+                    onRegenerate={handleRegenerate}
+                    onDelete={handleDeleteImage}
+                    onRemoveBackground={isLoading ? undefined : handleRemoveBackground}
+                    onEdit={isLoading ? undefined : image => setEditingImageId(image.id)}
+                    onRefine={isLoading ? undefined : image => setRefiningImageId(image.id)}
+                    onRevert={isLoading ? undefined : handleRevertToParent}
+                    onShowVersions={image => setVersionsImageId(image.id)}
+                    qualityThreshold={qualitySettings.threshold}
+                    prepareDownload={src => watermarkForExport(src, albumOptions)}
+                    product={productInfo}
+                    busyImageIds={regeneratingImageIds}
                     isLoading={isLoading} 
                     totalToGenerate={numVariations}
+                    pendingSlots={pendingSlots}
                   />
-                   {failures.length > 0 && (
+                   {(failures.length > 0 || criticalError) && (
                       <div className="mt-6 bg-red-900/20 border border-red-500/30 text-red-300 rounded-xl p-4">
-                        <h4 className="font-semibold mb-2">Failure Report</h4>
-                        <ul className="list-disc list-inside text-sm space-y-1">
-                          {failures.map((fail, index) => <li key={index}>{fail}</li>)}
-                        </ul>
+                        <div className="flex justify-between items-center mb-2">
+                          <h4 className="font-semibold">Failure Report</h4>
+                          {retryableFailureCount > 1 && !isLoading && (
+                            <button onClick={handleRetryAllFailures} className="flex items-center gap-1.5 text-xs font-medium text-red-200 hover:text-white transition-colors">
+                              <RefreshIcon className="w-3.5 h-3.5" />Retry all
+                            </button>
+                          )}
+                        </div>
+                        {criticalError && <p className="text-sm mb-2">{criticalError}</p>}
+                        <div className="space-y-3">
+                          {failureGroups.map(([kind, group]) => (
+                            <div key={kind}>
+                              <p className="text-xs font-semibold uppercase tracking-wide text-red-200/80 mb-1">{describeGenerationError(kind)}</p>
+                              <ul className="text-sm space-y-1.5">
+                                {group.map((fail) => {
+                                  const isRetrying = retryingAngleIds.includes(fail.angle.id);
+                                  return (
+                                    <li key={fail.angle.id} className="flex items-center gap-3">
+                                      <span className="flex-grow" title={fail.detail}>
+                                        <span className="font-medium">{fail.angle.name}</span>
+                                        <span className="text-red-300/70"> · {fail.attempts} {fail.attempts === 1 ? 'attempt' : 'attempts'}</span>
+                                      </span>
+                                      {fail.retryable && (
+                                        <button onClick={() => handleRetryFailure(fail)} disabled={isRetrying} className="p-1 rounded text-red-200 hover:text-white hover:bg-red-500/20 disabled:opacity-50 transition-colors" aria-label={`Retry ${fail.angle.name}`}>
+                                          <RefreshIcon className={`w-4 h-4 ${isRetrying ? 'animate-spin' : ''}`} />
+                                        </button>
+                                      )}
+                                      <button onClick={() => handleDismissFailure(fail)} disabled={isRetrying} className="p-1 rounded text-red-200 hover:text-white hover:bg-red-500/20 disabled:opacity-50 transition-colors" aria-label={`Dismiss ${fail.angle.name}`}>
+                                        <TrashIcon className="w-4 h-4" />
+                                      </button>
+                                    </li>
+                                  );
+                                })}
+                              </ul>
+                            </div>
+                          ))}
+                        </div>
                       </div>
                     )}
               </div>
@@ -245,12 +842,47 @@ const App: React.FC = () => {
         </main>
       </div>
 
+      {editingImage && (
+        <ImageEditorModal
+          image={editingImage}
+          albumAspectRatio={albumOptions.imageAspectRatio}
+          onSave={edits => handleSaveEdits(editingImage.id, edits)}
+          onClose={() => setEditingImageId(null)}
+        />
+      )}
+
+      {refiningImage && (
+        <RefineImageModal
+          image={refiningImage}
+          onSubmit={instruction => handleRefine(refiningImage, instruction)}
+          onClose={() => setRefiningImageId(null)}
+        />
+      )}
+
+      {versionsImage && (
+        <VersionHistoryModal
+          image={versionsImage}
+          referenceSrc={sourceImage}
+          onPickFinal={versionId => handlePickFinalVersion(versionsImage.id, versionId)}
+          onClose={() => setVersionsImageId(null)}
+        />
+      )}
+
+      {showMarketplaceExport && (
+        <MarketplaceExportModal
+          images={generatedImages}
+          productName={[productInfo.sku, productInfo.name].filter(Boolean).join(' ') || (session?.name ?? 'product')}
+          onClose={() => setShowMarketplaceExport(false)}
+        />
+      )}
+
       {showAlbumEditor && (
         <AlbumPreviewModal
           images={allImagesForAlbum}
           initialOptions={albumOptions}
           onOptionsChange={setAlbumOptions}
           onClose={() => setShowAlbumEditor(false)}
+          product={productInfo}
         />
       )}
     </div>
@@ -1,8 +1,12 @@
 
 import React, { useState, useEffect, useCallback, ChangeEvent } from 'react';
-import { DownloadIcon, CloseIcon, UploadIcon } from './icons';
-import { createBrandedAlbum, downloadBrandedAlbum, computePalette, createDefaultPalette } from '../services/zipService';
-import type { ImageItem, AlbumOptions, Palette } from '../types';
+import { DownloadIcon, CloseIcon, UploadIcon, ArchiveIcon } from './icons';
+import { createBrandedAlbum, downloadBrandedAlbum, downloadAlbumZip, computePalette, createDefaultPalette } from '../services/zipService';
+import { ALBUM_FORMATS, ALBUM_LAYOUTS, DEFAULT_ALBUM_LAYOUT_ID, PRINT_DPI, getAlbumCanvasSize, getAlbumFormat, getPrintResolution, resolveLayoutRegions, type AlbumFormat, type AlbumLayout } from '../services/albumLayouts';
+import { DEFAULT_CATALOG_OPTIONS, downloadCatalogPdf, toCatalogProduct, type CatalogOptions, type CatalogPageFormatId, type CatalogProduct } from '../services/catalogService';
+import { DEFAULT_PRODUCT_DISPLAY } from '../services/productService';
+import { applyWatermark, getWatermarkOptions } from '../services/watermarkService';
+import type { ImageItem, AlbumOptions, AlbumFormatId, Palette, PriceTagStyle, ProductCaptionMode, ProductDisplayOptions, ProductInfo, WatermarkBlendMode, WatermarkOptions, WatermarkPosition, WatermarkRepeat } from '../types';
 
 // Helper component for a single input field in the branding panel
 const ControlInput: React.FC<{label: string; id: string; value: string; onChange: (e: ChangeEvent<HTMLInputElement>) => void;}> = ({ label, id, ...props }) => (
@@ -23,8 +27,207 @@ const ControlColor: React.FC<{label: string; id: string; value: string; onChange
     </div>
 );
 
+// Miniature of a layout template, drawn from the same region description the renderer uses
+const LayoutThumbnail: React.FC<{ layout: AlbumLayout; format: AlbumFormat }> = ({ layout, format }) => {
+    const { width, height } = getAlbumCanvasSize(format, 2048);
+    const body = { x: layout.padding, y: layout.headerHeight, width: width - layout.padding * 2, height: height - layout.headerHeight - layout.footerHeight };
+    return (
+        <svg viewBox={`0 0 ${width} ${height}`} className="w-full max-h-24 rounded bg-slate-100" aria-hidden="true">
+            <rect x={width * 0.3} y={layout.headerHeight * 0.4} width={width * 0.4} height={layout.headerHeight * 0.3} rx={30} fill="#94a3b8" />
+            {resolveLayoutRegions(layout, body.width / body.height).map((region, i) => (
+                <rect
+                    key={i}
+                    x={body.x + region.area.x * body.width}
+                    y={body.y + region.area.y * body.height}
+                    width={region.area.width * body.width}
+                    height={region.area.height * body.height}
+                    rx={40}
+                    fill={region.kind === 'text' ? '#cbd5e1' : '#60a5fa'}
+                />
+            ))}
+        </svg>
+    );
+};
+
+// Segmented control, styled like the image fit picker
+const SegmentedControl = <T extends string>({ value, options, onChange }: { value: T; options: [T, string][]; onChange: (value: T) => void }) => (
+    <div className="flex w-full bg-slate-700 rounded-lg p-1">
+        {options.map(([optionValue, label]) => (
+            <button key={optionValue} onClick={() => onChange(optionValue)} className={`flex-1 py-1.5 text-sm rounded-md transition-colors ${value === optionValue ? 'bg-blue-600 text-white font-semibold' : 'text-slate-300 hover:bg-slate-600'}`}>{label}</button>
+        ))}
+    </div>
+);
+
+// PDF catalog settings; product names, SKUs and prices come from the product details
+const CatalogControls: React.FC<{
+    options: CatalogOptions;
+    onOptionsChange: (options: CatalogOptions) => void;
+}> = ({ options, onOptionsChange }) => (
+    <div className="space-y-4">
+        <h4 className="font-semibold text-slate-300">PDF Catalog</h4>
+        <SegmentedControl<CatalogPageFormatId> value={options.pageFormatId} options={[['a4', 'A4'], ['letter', 'US Letter']]} onChange={pageFormatId => onOptionsChange({ ...options, pageFormatId })} />
+        <SegmentedControl value={options.pageMode} options={[['product', 'Page per product'], ['angle', 'Page per angle']]} onChange={pageMode => onOptionsChange({ ...options, pageMode })} />
+        <div className="space-y-2 text-sm text-slate-300">
+            <label className="flex items-center gap-2"><input type="checkbox" checked={options.includeCover} onChange={(e) => onOptionsChange({ ...options, includeCover: e.target.checked })} className="rounded accent-blue-500" />Cover page</label>
+            <label className="flex items-center gap-2"><input type="checkbox" checked={options.showSku} onChange={(e) => onOptionsChange({ ...options, showSku: e.target.checked })} className="rounded accent-blue-500" />Show SKU</label>
+            <label className="flex items-center gap-2"><input type="checkbox" checked={options.showPrice} onChange={(e) => onOptionsChange({ ...options, showPrice: e.target.checked })} className="rounded accent-blue-500" />Show price</label>
+        </div>
+    </div>
+);
+
+// How the album shows the product details edited in the project (captions, price tag, SKU, description)
+const ProductDisplayControls: React.FC<{ options: AlbumOptions; onOptionsChange: (newOptions: AlbumOptions) => void; }> = ({ options, onOptionsChange }) => {
+    const display = options.productDisplay ?? DEFAULT_PRODUCT_DISPLAY;
+    const update = (changes: Partial<ProductDisplayOptions>) => onOptionsChange({ ...options, productDisplay: { ...display, ...changes } });
+    return (
+        <div className="space-y-4">
+            <h4 className="font-semibold text-slate-300">Product Details</h4>
+            <div>
+                <span className="block text-sm font-medium text-slate-300 mb-1.5">Captions</span>
+                <SegmentedControl<ProductCaptionMode> value={display.caption} options={[['angle', 'Angle'], ['product', 'Product'], ['productAndAngle', 'Both']]} onChange={caption => update({ caption })} />
+            </div>
+            <div>
+                <span className="block text-sm font-medium text-slate-300 mb-1.5">Price tag</span>
+                <SegmentedControl<PriceTagStyle> value={display.priceTag} options={[['none', 'None'], ['header', 'Header'], ['badge', 'Badge']]} onChange={priceTag => update({ priceTag })} />
+            </div>
+            <div className="space-y-2 text-sm text-slate-300">
+                <label className="flex items-center gap-2"><input type="checkbox" checked={display.showSku} onChange={(e) => update({ showSku: e.target.checked })} className="rounded accent-blue-500" />Show SKU</label>
+                <label className="flex items-center gap-2"><input type="checkbox" checked={display.showDescription} onChange={(e) => update({ showDescription: e.target.checked })} className="rounded accent-blue-500" />Use description in text panels</label>
+            </div>
+        </div>
+    );
+};
+
+const WATERMARK_POSITIONS: WatermarkPosition[] = ['top-left', 'top', 'top-right', 'left', 'center', 'right', 'bottom-left', 'bottom', 'bottom-right'];
+
+const BLEND_MODES: [WatermarkBlendMode, string][] = [
+    ['source-over', 'Normal'],
+    ['multiply', 'Multiply'],
+    ['screen', 'Screen'],
+    ['overlay', 'Overlay'],
+    ['soft-light', 'Soft light'],
+    ['difference', 'Difference'],
+];
+
+// Label + value row above a range input, like the generation settings sliders
+const ControlRange: React.FC<{ label: string; value: number; min: number; max: number; unit: string; onChange: (value: number) => void }> = ({ label, value, min, max, unit, onChange }) => (
+    <label className="flex items-center justify-between gap-3 text-xs text-slate-400">
+        <span className="w-16 flex-shrink-0">{label}</span>
+        <input type="range" min={min} max={max} value={value} onChange={(e) => onChange(Number(e.target.value))} className="flex-grow accent-blue-500" />
+        <span className="w-10 text-right text-slate-300">{value}{unit}</span>
+    </label>
+);
+
+// Sample image with the current watermark, re-rendered small on every change
+const WatermarkPreview: React.FC<{ src: string; options: AlbumOptions }> = ({ src, options }) => {
+    const [previewSrc, setPreviewSrc] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        applyWatermark(src, options, 320)
+            .then(result => { if (!cancelled) setPreviewSrc(result); })
+            .catch(error => console.error("Failed to render watermark preview:", error));
+        return () => { cancelled = true; };
+    }, [src, options]);
+
+    return previewSrc
+        ? <img src={previewSrc} alt="Watermark preview" className="w-full max-h-48 object-contain rounded-lg bg-slate-900" />
+        : <div className="w-full h-32 rounded-lg bg-slate-900 animate-pulse" />;
+};
+
+// Watermark settings: content, placement and blending, plus where it is applied
+const WatermarkControls: React.FC<{ options: AlbumOptions; onOptionsChange: (newOptions: AlbumOptions) => void; sampleSrc?: string }> = ({ options, onOptionsChange, sampleSrc }) => {
+    const watermark = getWatermarkOptions(options);
+    const update = (changes: Partial<WatermarkOptions>) => onOptionsChange({ ...options, watermark: { ...watermark, ...changes } });
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between bg-slate-700/80 p-3 rounded-lg">
+                <label htmlFor="showWatermark" className="text-sm font-medium text-slate-300">Watermark</label>
+                <button
+                    id="showWatermark"
+                    role="switch"
+                    aria-checked={options.showWatermark}
+                    onClick={() => onOptionsChange({ ...options, showWatermark: !options.showWatermark })}
+                    className={`${options.showWatermark ? 'bg-blue-600' : 'bg-slate-600'} relative inline-flex h-6 w-11 items-center rounded-full transition-colors`}
+                >
+                    <span className={`${options.showWatermark ? 'translate-x-6' : 'translate-x-1'} inline-block h-4 w-4 transform rounded-full bg-white transition-transform`} />
+                </button>
+            </div>
+
+            {options.showWatermark && (
+                <>
+                    <SegmentedControl<WatermarkOptions['content']>
+                        value={watermark.content}
+                        options={[['logo', 'Logo'], ['text', 'Text']]}
+                        onChange={content => update({ content, text: watermark.text || options.brandInfo.name })}
+                    />
+                    {watermark.content === 'logo' && !options.brandInfo.logoSrc && (
+                        <p className="text-xs text-amber-300">Upload a logo above to use it as the watermark.</p>
+                    )}
+                    {watermark.content === 'text' && (
+                        <div className="grid grid-cols-[1fr_auto] gap-3 items-end">
+                            <ControlInput label="Text" id="watermarkText" value={watermark.text} onChange={(e) => update({ text: e.target.value })} />
+                            <input type="color" value={watermark.color} onChange={(e) => update({ color: e.target.value })} className="w-10 h-9 p-1 bg-slate-700 border border-slate-600 rounded-md cursor-pointer" aria-label="Text color" />
+                        </div>
+                    )}
+
+                    <SegmentedControl<WatermarkRepeat>
+                        value={watermark.repeat}
+                        options={[['single', 'Single'], ['tiled', 'Tiled'], ['diagonal', 'Diagonal']]}
+                        onChange={repeat => update({ repeat, rotation: repeat === 'diagonal' && watermark.rotation === 0 ? -30 : watermark.rotation })}
+                    />
+                    {watermark.repeat === 'single' && (
+                        <div className="flex items-center gap-4">
+                            <span className="text-xs text-slate-400">Position</span>
+                            <div className="grid grid-cols-3 gap-1" role="radiogroup" aria-label="Watermark position">
+                                {WATERMARK_POSITIONS.map(position => (
+                                    <button
+                                        key={position}
+                                        role="radio"
+                                        aria-checked={watermark.position === position}
+                                        aria-label={position}
+                                        title={position}
+                                        onClick={() => update({ position })}
+                                        className={`w-6 h-6 rounded transition-colors ${watermark.position === position ? 'bg-blue-600' : 'bg-slate-700 hover:bg-slate-600'}`}
+                                    />
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="space-y-2">
+                        <ControlRange label="Size" value={Math.round(watermark.size * 100)} min={5} max={100} unit="%" onChange={(value) => update({ size: value / 100 })} />
+                        <ControlRange label="Margin" value={Math.round(watermark.margin * 100)} min={0} max={20} unit="%" onChange={(value) => update({ margin: value / 100 })} />
+                        <ControlRange label="Rotation" value={watermark.rotation} min={-90} max={90} unit="°" onChange={(rotation) => update({ rotation })} />
+                        <ControlRange label="Opacity" value={Math.round(watermark.opacity * 100)} min={5} max={100} unit="%" onChange={(value) => update({ opacity: value / 100 })} />
+                    </div>
+                    <div className="flex items-center justify-between gap-2 text-xs text-slate-400">
+                        <label htmlFor="watermarkBlend">Blend mode</label>
+                        <select
+                            id="watermarkBlend"
+                            value={watermark.blendMode}
+                            onChange={(e) => update({ blendMode: e.target.value as WatermarkBlendMode })}
+                            className="bg-slate-700 text-white rounded-md border border-slate-600 px-2 py-1 text-sm"
+                        >
+                            {BLEND_MODES.map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                        </select>
+                    </div>
+                    <div className="space-y-2 text-sm text-slate-300">
+                        <label className="flex items-center gap-2"><input type="checkbox" checked={watermark.applyToImages} onChange={(e) => update({ applyToImages: e.target.checked })} className="rounded accent-blue-500" />Each image (album and exported files)</label>
+                        <label className="flex items-center gap-2"><input type="checkbox" checked={watermark.applyToAlbum} onChange={(e) => update({ applyToAlbum: e.target.checked })} className="rounded accent-blue-500" />Whole album</label>
+                    </div>
+                    {sampleSrc && <WatermarkPreview src={sampleSrc} options={options} />}
+                </>
+            )}
+        </div>
+    );
+};
+
 // Branding Controls Panel Component, defined in-file to adhere to constraints
-const BrandingControls: React.FC<{ options: AlbumOptions; onOptionsChange: (newOptions: AlbumOptions) => void; }> = ({ options, onOptionsChange }) => {
+const BrandingControls: React.FC<{ options: AlbumOptions; onOptionsChange: (newOptions: AlbumOptions) => void; imageCount: number; sampleSrc?: string; children?: React.ReactNode; }> = ({ options, onOptionsChange, imageCount, sampleSrc, children }) => {
+    const selectedLayoutId = options.layoutId ?? DEFAULT_ALBUM_LAYOUT_ID;
+    const format = getAlbumFormat(options.formatId);
     
     const handleBrandInfoChange = (field: string, value: string) => {
         onOptionsChange({ ...options, brandInfo: { ...options.brandInfo, [field]: value } });
@@ -84,6 +287,38 @@ const BrandingControls: React.FC<{ options: AlbumOptions; onOptionsChange: (newO
             {/* Layout Section */}
             <div className="space-y-4">
                 <h4 className="font-semibold text-slate-300">Layout & Style</h4>
+                <div>
+                    <label htmlFor="albumFormat" className="block text-sm font-medium text-slate-300 mb-1.5">Format</label>
+                    <select
+                        id="albumFormat"
+                        value={format.id}
+                        onChange={(e) => onOptionsChange({ ...options, formatId: e.target.value as AlbumFormatId })}
+                        className="w-full bg-slate-700 text-white rounded-md border border-slate-600 px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                        {ALBUM_FORMATS.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <span className="block text-sm font-medium text-slate-300 mb-1.5">Template</span>
+                    <div className="grid grid-cols-3 gap-2">
+                        {ALBUM_LAYOUTS.map(layout => {
+                            const isSelected = layout.id === selectedLayoutId;
+                            const tooFewImages = imageCount < layout.minImages;
+                            return (
+                                <button
+                                    key={layout.id}
+                                    onClick={() => onOptionsChange({ ...options, layoutId: layout.id })}
+                                    title={tooFewImages ? `${layout.description} Needs at least ${layout.minImages} images; the grid is used until then.` : layout.description}
+                                    aria-pressed={isSelected}
+                                    className={`p-1.5 rounded-lg text-[11px] leading-tight transition-colors ${isSelected ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'} ${tooFewImages ? 'opacity-50' : ''}`}
+                                >
+                                    <LayoutThumbnail layout={layout} format={format} />
+                                    <span className="block mt-1">{layout.name}</span>
+                                </button>
+                            );
+                        })}
+                    </div>
+                </div>
                  <div>
                     <label htmlFor="imageFit" className="block text-sm font-medium text-slate-300 mb-1.5">Image Fit</label>
                     <div className="flex w-full bg-slate-700 rounded-lg p-1">
@@ -106,20 +341,12 @@ const BrandingControls: React.FC<{ options: AlbumOptions; onOptionsChange: (newO
                         <option value="3:4">Portrait (3:4)</option>
                     </select>
                  </div>
-                 <div className="flex items-center justify-between bg-slate-700/80 p-3 rounded-lg">
-                    <label htmlFor="showWatermark" className="text-sm font-medium text-slate-300">Logo watermark on images</label>
-                    <button
-                        id="showWatermark"
-                        role="switch"
-                        aria-checked={options.showWatermark}
-                        onClick={() => onOptionsChange({ ...options, showWatermark: !options.showWatermark })}
-                        className={`${options.showWatermark ? 'bg-blue-600' : 'bg-slate-600'} relative inline-flex h-6 w-11 items-center rounded-full transition-colors`}
-                    >
-                        <span className={`${options.showWatermark ? 'translate-x-6' : 'translate-x-1'} inline-block h-4 w-4 transform rounded-full bg-white transition-transform`} />
-                    </button>
-                </div>
             </div>
 
+            {/* Watermark Section */}
+            <WatermarkControls options={options} onOptionsChange={onOptionsChange} sampleSrc={sampleSrc} />
+
+            {children}
         </div>
     );
 };
@@ -130,19 +357,24 @@ interface AlbumPreviewModalProps {
   initialOptions: AlbumOptions;
   onOptionsChange: (newOptions: AlbumOptions) => void;
   onClose: () => void;
+  product?: ProductInfo; // the product shown in `images`
+  catalogProducts?: CatalogProduct[]; // several products (batch mode); defaults to one product with `images`
 }
 
-const AlbumPreviewModal: React.FC<AlbumPreviewModalProps> = ({ images, initialOptions, onOptionsChange, onClose }) => {
+const AlbumPreviewModal: React.FC<AlbumPreviewModalProps> = ({ images, initialOptions, onOptionsChange, onClose, product, catalogProducts }) => {
   const [previewSrc, setPreviewSrc] = useState<string>('');
   const [isRendering, setIsRendering] = useState(true);
   const [renderProgress, setRenderProgress] = useState(0);
+  const [zipProgress, setZipProgress] = useState<number | null>(null);
+  const [pdfProgress, setPdfProgress] = useState<number | null>(null);
+  const [catalogOptions, setCatalogOptions] = useState<CatalogOptions>(DEFAULT_CATALOG_OPTIONS);
 
   const renderPreview = useCallback(async (opts: AlbumOptions) => {
       setIsRendering(true);
       setRenderProgress(0);
       try {
           // Render a faster, lower-resolution preview for the UI
-          const dataUrl = await createBrandedAlbum(images, opts, 1024, setRenderProgress);
+          const dataUrl = await createBrandedAlbum(images, opts, 1024, setRenderProgress, product);
           setPreviewSrc(dataUrl);
       } catch (error) {
           console.error("Failed to render album preview:", error);
@@ -150,18 +382,48 @@ const AlbumPreviewModal: React.FC<AlbumPreviewModalProps> = ({ images, initialOp
       } finally {
           setIsRendering(false);
       }
-  }, [images]);
+  }, [images, product]);
 
   useEffect(() => {
     // Initial render and subsequent re-renders on options change
     renderPreview(initialOptions);
   }, [initialOptions, renderPreview]);
   
+  const format = getAlbumFormat(initialOptions.formatId);
+  const printResolution = getPrintResolution(format);
+  const sizeLabel = (resolution: number) => {
+    const { width, height } = getAlbumCanvasSize(format, resolution);
+    return width === height ? `${resolution}p` : `${width}×${height}`;
+  };
+
   const handleDownload = async (resolution: number) => {
     // Add a loading state for downloads
-    await downloadBrandedAlbum(images, initialOptions, resolution);
+    await downloadBrandedAlbum(images, initialOptions, resolution, product);
   }
 
+  const handleZipDownload = async () => {
+    setZipProgress(0);
+    try {
+        await downloadAlbumZip(images, initialOptions, undefined, (p) => setZipProgress(Math.round(p)), product);
+    } catch (error) {
+        console.error("Failed to export album zip:", error);
+    } finally {
+        setZipProgress(null);
+    }
+  };
+
+  const handlePdfDownload = async () => {
+    setPdfProgress(0);
+    try {
+        const products = catalogProducts ?? [toCatalogProduct(product, initialOptions.brandInfo.name, images)];
+        await downloadCatalogPdf(products, initialOptions, catalogOptions, (p) => setPdfProgress(Math.round(p)));
+    } catch (error) {
+        console.error("Failed to export PDF catalog:", error);
+    } finally {
+        setPdfProgress(null);
+    }
+  };
+
   return (
     <div 
       className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-2 sm:p-4 animate-fade-in"
@@ -181,12 +443,23 @@ const AlbumPreviewModal: React.FC<AlbumPreviewModalProps> = ({ images, initialOp
             <header className="p-4 border-b border-slate-700 flex justify-between items-center flex-shrink-0">
                 <h3 id="album-editor-title" className="text-lg font-semibold text-white">Album Editor & Exporter</h3>
                 <div className="flex items-center gap-2">
+                    <button onClick={handleZipDownload} disabled={zipProgress !== null} className="flex items-center justify-center gap-2 bg-slate-600 text-slate-200 font-semibold py-2 px-4 rounded-lg hover:bg-slate-500 text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                        <ArchiveIcon className="w-4 h-4" /><span>{zipProgress !== null ? `Zipping... ${zipProgress}%` : 'Download ZIP'}</span>
+                    </button>
+                    <button onClick={handlePdfDownload} disabled={pdfProgress !== null} className="flex items-center justify-center gap-2 bg-slate-600 text-slate-200 font-semibold py-2 px-4 rounded-lg hover:bg-slate-500 text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                        <DownloadIcon className="w-4 h-4" /><span>{pdfProgress !== null ? `Building PDF... ${pdfProgress}%` : 'PDF Catalog'}</span>
+                    </button>
                     <button onClick={() => handleDownload(1080)} className="flex items-center justify-center gap-2 bg-slate-600 text-slate-200 font-semibold py-2 px-4 rounded-lg hover:bg-slate-500 text-sm transition-colors">
-                        <DownloadIcon className="w-4 h-4" /><span>Export 1080p</span>
+                        <DownloadIcon className="w-4 h-4" /><span>Export {sizeLabel(1080)}</span>
                     </button>
                     <button onClick={() => handleDownload(2048)} className="flex items-center justify-center gap-2 bg-blue-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-blue-500 text-sm transition-colors">
-                        <DownloadIcon className="w-4 h-4" /><span>Export 2048p</span>
+                        <DownloadIcon className="w-4 h-4" /><span>Export {sizeLabel(2048)}</span>
                     </button>
+                    {printResolution && (
+                        <button onClick={() => handleDownload(printResolution)} title={sizeLabel(printResolution)} className="flex items-center justify-center gap-2 bg-slate-600 text-slate-200 font-semibold py-2 px-4 rounded-lg hover:bg-slate-500 text-sm transition-colors">
+                            <DownloadIcon className="w-4 h-4" /><span>Print {PRINT_DPI} dpi</span>
+                        </button>
+                    )}
                     <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors p-1 rounded-full hover:bg-slate-700 ml-2" aria-label="Close editor">
                         <CloseIcon className="w-6 h-6" />
                     </button>
@@ -200,7 +473,10 @@ const AlbumPreviewModal: React.FC<AlbumPreviewModalProps> = ({ images, initialOp
         </div>
 
         {/* Side Panel: Controls */}
-        <BrandingControls options={initialOptions} onOptionsChange={onOptionsChange} />
+        <BrandingControls options={initialOptions} onOptionsChange={onOptionsChange} imageCount={images.length} sampleSrc={images[images.length > 1 ? 1 : 0]?.src}>
+            <ProductDisplayControls options={initialOptions} onOptionsChange={onOptionsChange} />
+            <CatalogControls options={catalogOptions} onOptionsChange={setCatalogOptions} />
+        </BrandingControls>
       </div>
     </div>
   );
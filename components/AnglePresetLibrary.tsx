@@ -0,0 +1,203 @@
+import React, { useRef, useState, ChangeEvent } from 'react';
+import { PlusIcon, PencilIcon, CopyIcon, TrashIcon, ChevronUpIcon, ChevronDownIcon, CloseIcon, UploadIcon, DownloadIcon } from './icons';
+import { createAnglePreset, createThumbnail, duplicateAnglePreset, exportAnglePresets, parseAnglePresetsImport } from '../services/anglePresetService';
+import type { AnglePreset } from '../types';
+
+interface AnglePresetLibraryProps {
+  presets: AnglePreset[];
+  selectedIds: string[];
+  onPresetsChange: (presets: AnglePreset[]) => void;
+  onSelectionChange: (selectedIds: string[]) => void;
+  disabled?: boolean;
+}
+
+// Editor modal for a single preset, defined in-file like the album branding controls
+const AnglePresetEditor: React.FC<{ preset: AnglePreset; onSave: (preset: AnglePreset) => void; onCancel: () => void; }> = ({ preset, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<AnglePreset>(preset);
+  const [thumbnailError, setThumbnailError] = useState<string | null>(null);
+
+  const handleThumbnailUpload = (e: ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      const file = e.target.files[0];
+      const reader = new FileReader();
+      reader.onloadend = async () => {
+        try {
+          if (reader.error) throw reader.error;
+          const thumbnail = await createThumbnail(reader.result as string);
+          setDraft(prev => ({ ...prev, thumbnail }));
+          setThumbnailError(null);
+        } catch (error) {
+          console.error("Failed to create angle thumbnail:", error);
+          setThumbnailError(`Could not use ${file.name} as a thumbnail.`);
+        }
+      };
+      reader.readAsDataURL(file);
+    }
+    e.target.value = '';
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4" onClick={onCancel} role="dialog" aria-modal="true" aria-labelledby="angle-editor-title">
+      <div className="bg-slate-800 rounded-2xl shadow-2xl w-full max-w-lg p-6 space-y-4" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h3 id="angle-editor-title" className="text-lg font-semibold text-white">Edit Angle</h3>
+          <button onClick={onCancel} className="text-slate-400 hover:text-white transition-colors p-1 rounded-full hover:bg-slate-700" aria-label="Close editor">
+            <CloseIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="flex gap-4">
+          <label className="flex-shrink-0 w-20 h-20 rounded-lg overflow-hidden border-2 border-dashed border-slate-600 hover:border-blue-500 cursor-pointer flex items-center justify-center bg-slate-700/50 transition-colors">
+            {draft.thumbnail ? (
+              <img src={draft.thumbnail} alt="Angle thumbnail" className="w-full h-full object-cover" />
+            ) : (
+              <UploadIcon className="w-6 h-6 text-slate-400" />
+            )}
+            <input type="file" className="sr-only" accept="image/png, image/jpeg, image/webp" onChange={handleThumbnailUpload} />
+          </label>
+          <div className="flex-grow">
+            <label htmlFor="angle-name" className="block text-sm font-medium text-slate-300 mb-1.5">Name</label>
+            <input
+              id="angle-name"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              className="w-full bg-slate-700 text-white rounded-md border border-slate-600 px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+        </div>
+        <div>
+          <label htmlFor="angle-prompt" className="block text-sm font-medium text-slate-300 mb-1.5">Prompt</label>
+          <textarea
+            id="angle-prompt"
+            rows={6}
+            value={draft.prompt}
+            onChange={(e) => setDraft({ ...draft, prompt: e.target.value })}
+            className="w-full bg-slate-700 text-white rounded-md border border-slate-600 px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <p className="text-xs text-slate-500 mt-1">Identity-preservation instructions are appended automatically.</p>
+        </div>
+        {thumbnailError && <p className="text-xs text-red-400">{thumbnailError}</p>}
+        <div className="flex justify-end gap-2">
+          <button onClick={onCancel} className="py-2 px-4 rounded-lg text-sm text-slate-300 hover:bg-slate-700 transition-colors">Cancel</button>
+          <button
+            onClick={() => onSave({ ...draft, name: draft.name.trim() || 'Untitled Angle' })}
+            disabled={!draft.prompt.trim()}
+            className="py-2 px-4 rounded-lg text-sm font-semibold bg-blue-600 text-white hover:bg-blue-500 transition-colors disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const AnglePresetLibrary: React.FC<AnglePresetLibraryProps> = ({ presets, selectedIds, onPresetsChange, onSelectionChange, disabled }) => {
+  const [editingPreset, setEditingPreset] = useState<AnglePreset | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const toggleSelection = (id: string) => {
+    onSelectionChange(selectedIds.includes(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id]);
+  };
+
+  const movePreset = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= presets.length) return;
+    const reordered = [...presets];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onPresetsChange(reordered);
+  };
+
+  const handleDuplicate = (index: number) => {
+    const copy = duplicateAnglePreset(presets[index]);
+    onPresetsChange([...presets.slice(0, index + 1), copy, ...presets.slice(index + 1)]);
+  };
+
+  const handleDelete = (id: string) => {
+    onPresetsChange(presets.filter(p => p.id !== id));
+    onSelectionChange(selectedIds.filter(s => s !== id));
+  };
+
+  const handleSave = (preset: AnglePreset) => {
+    const exists = presets.some(p => p.id === preset.id);
+    onPresetsChange(exists ? presets.map(p => (p.id === preset.id ? preset : p)) : [...presets, preset]);
+    if (!exists) onSelectionChange([...selectedIds, preset.id]);
+    setEditingPreset(null);
+  };
+
+  const handleImport = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      try {
+        const imported = parseAnglePresetsImport(reader.result as string, presets);
+        onPresetsChange([...presets, ...imported]);
+        setImportError(null);
+      } catch (error) {
+        setImportError(error instanceof Error ? error.message : 'Failed to import presets.');
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <>
+    <div className={`space-y-3 ${disabled ? 'opacity-60 pointer-events-none' : ''}`}>
+      <div className="flex justify-between items-center">
+        <span className="font-semibold text-slate-300 text-base">Angles</span>
+        <span className="text-sm text-slate-400">{presets.filter(p => selectedIds.includes(p.id)).length} of {presets.length} selected</span>
+      </div>
+
+      <ul className="space-y-1.5 max-h-80 overflow-y-auto pr-1">
+        {presets.map((preset, index) => {
+          const isSelected = selectedIds.includes(preset.id);
+          return (
+            <li key={preset.id} className={`group flex items-center gap-2 rounded-lg p-1.5 transition-colors ${isSelected ? 'bg-blue-600/15 ring-1 ring-blue-500/40' : 'bg-slate-700/40 hover:bg-slate-700/70'}`}>
+              <input
+                type="checkbox"
+                checked={isSelected}
+                onChange={() => toggleSelection(preset.id)}
+                className="w-4 h-4 accent-blue-500 flex-shrink-0"
+                aria-label={`Select ${preset.name}`}
+              />
+              <div className="w-9 h-9 rounded-md overflow-hidden bg-slate-700 flex-shrink-0 flex items-center justify-center text-xs font-semibold text-slate-400">
+                {preset.thumbnail ? <img src={preset.thumbnail} alt="" className="w-full h-full object-cover" /> : preset.name.slice(0, 2).toUpperCase()}
+              </div>
+              <span className="flex-grow text-sm text-slate-200 truncate" title={preset.prompt}>{preset.name}</span>
+              <div className="flex items-center gap-0.5 text-slate-400 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button onClick={() => movePreset(index, -1)} disabled={index === 0} className="p-1 hover:text-white disabled:opacity-30" aria-label="Move up"><ChevronUpIcon className="w-4 h-4" /></button>
+                <button onClick={() => movePreset(index, 1)} disabled={index === presets.length - 1} className="p-1 hover:text-white disabled:opacity-30" aria-label="Move down"><ChevronDownIcon className="w-4 h-4" /></button>
+                <button onClick={() => setEditingPreset(preset)} className="p-1 hover:text-white" aria-label="Edit angle"><PencilIcon className="w-4 h-4" /></button>
+                <button onClick={() => handleDuplicate(index)} className="p-1 hover:text-white" aria-label="Duplicate angle"><CopyIcon className="w-4 h-4" /></button>
+                <button onClick={() => handleDelete(preset.id)} className="p-1 hover:text-red-400" aria-label="Delete angle"><TrashIcon className="w-4 h-4" /></button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex gap-2">
+        <button onClick={() => setEditingPreset(createAnglePreset())} className="flex-grow flex items-center justify-center gap-1.5 py-1.5 rounded-md text-sm text-slate-200 bg-slate-700 hover:bg-slate-600 transition-colors">
+          <PlusIcon className="w-4 h-4" />New
+        </button>
+        <button onClick={() => importInputRef.current?.click()} className="flex items-center justify-center gap-1.5 py-1.5 px-3 rounded-md text-sm text-slate-300 bg-slate-700/50 hover:bg-slate-700 transition-colors">
+          <UploadIcon className="w-4 h-4" />Import
+        </button>
+        <button onClick={() => exportAnglePresets(presets)} className="flex items-center justify-center gap-1.5 py-1.5 px-3 rounded-md text-sm text-slate-300 bg-slate-700/50 hover:bg-slate-700 transition-colors">
+          <DownloadIcon className="w-4 h-4" />Export
+        </button>
+        <input ref={importInputRef} type="file" accept="application/json,.json" className="sr-only" onChange={handleImport} />
+      </div>
+      {importError && <p className="text-xs text-red-400">{importError}</p>}
+    </div>
+
+    {editingPreset && (
+      <AnglePresetEditor preset={editingPreset} onSave={handleSave} onCancel={() => setEditingPreset(null)} />
+    )}
+    </>
+  );
+};
+
+export default AnglePresetLibrary;
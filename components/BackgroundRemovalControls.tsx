@@ -0,0 +1,52 @@
+import React from 'react';
+import { ScissorsIcon } from './icons';
+import type { BackgroundRemovalOptions } from '../services/backgroundRemovalService';
+
+interface BackgroundRemovalControlsProps {
+  options: BackgroundRemovalOptions;
+  onOptionsChange: (options: BackgroundRemovalOptions) => void;
+  onApplyToAll: () => void;
+  pendingCount: number; // images that still have their background
+  isProcessing: boolean;
+}
+
+const BackgroundRemovalControls: React.FC<BackgroundRemovalControlsProps> = ({ options, onOptionsChange, onApplyToAll, pendingCount, isProcessing }) => (
+  <div className="space-y-2 bg-slate-900/40 rounded-lg p-3">
+    <span className="font-semibold text-slate-300 text-sm">Background Removal</span>
+    <label className="flex items-center justify-between gap-3 text-xs text-slate-400">
+      Tolerance
+      <input
+        type="range"
+        min={0}
+        max={80}
+        value={options.tolerance}
+        onChange={e => onOptionsChange({ ...options, tolerance: Number(e.target.value) })}
+        className="flex-grow accent-blue-500"
+      />
+      <span className="w-6 text-right text-slate-300">{options.tolerance}</span>
+    </label>
+    <label className="flex items-center justify-between gap-3 text-xs text-slate-400">
+      Feather
+      <input
+        type="range"
+        min={0}
+        max={8}
+        value={options.feather}
+        onChange={e => onOptionsChange({ ...options, feather: Number(e.target.value) })}
+        className="flex-grow accent-blue-500"
+      />
+      <span className="w-6 text-right text-slate-300">{options.feather}px</span>
+    </label>
+    <button
+      onClick={onApplyToAll}
+      disabled={pendingCount === 0 || isProcessing}
+      className="w-full flex items-center justify-center gap-2 py-2 px-3 rounded-lg text-sm font-medium bg-slate-700 text-slate-200 hover:bg-slate-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      <ScissorsIcon className="w-4 h-4" />
+      {isProcessing ? 'Removing...' : `Remove from All (${pendingCount})`}
+    </button>
+    <p className="text-xs text-slate-500">Works best on plain studio backgrounds. Cutouts are saved as transparent PNGs.</p>
+  </div>
+);
+
+export default BackgroundRemovalControls;
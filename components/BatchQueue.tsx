@@ -0,0 +1,346 @@
+import React, { useRef, useState, ChangeEvent } from 'react';
+import GeneratedImageGallery from './GeneratedImageGallery';
+import VariationSlider from './VariationSlider';
+import AlbumPreviewModal from './AlbumPreviewModal';
+import ProductInfoPanel from './ProductInfoPanel';
+import { ArchiveIcon, ChevronDownIcon, ChevronUpIcon, CloseIcon, EyeIcon, PlusIcon, RefreshIcon, SparklesIcon, TrashIcon } from './icons';
+import { createBatchJobs, runBatchJob } from '../services/batchService';
+import { generateAngleVariation, toGenerationFailure } from '../services/geminiService';
+import { describeGenerationError } from '../services/generationErrors';
+import { addVersion } from '../services/imageVersionService';
+import { downloadBatchZip } from '../services/zipService';
+import { toCatalogProduct } from '../services/catalogService';
+import { createProductInfo } from '../services/productService';
+import { watermarkForExport } from '../services/watermarkService';
+import { runWithConcurrency } from '../services/asyncUtils';
+import type { AlbumOptions, AnglePreset, BatchJob, BatchJobStatus, GenerationSettings, ImageGenerationProvider, ImageItem, RetryEvent } from '../types';
+
+interface BatchQueueProps {
+  initialJobs: BatchJob[];
+  anglePresets: AnglePreset[];
+  defaultAngleIds: string[];
+  resolveProvider: () => ImageGenerationProvider;
+  generationSettings: GenerationSettings;
+  albumOptions: AlbumOptions;
+  onAlbumOptionsChange: (newOptions: AlbumOptions) => void;
+  onExit: () => void;
+}
+
+const STATUS_STYLES: Record<BatchJobStatus, string> = {
+  queued: 'bg-slate-600/60 text-slate-200',
+  running: 'bg-blue-600/30 text-blue-200',
+  done: 'bg-emerald-600/30 text-emerald-200',
+  failed: 'bg-red-600/30 text-red-200',
+};
+
+// A single product row, with its angle picker and gallery, defined in-file like the album branding controls
+const BatchJobRow: React.FC<{
+  job: BatchJob;
+  anglePresets: AnglePreset[];
+  isExpanded: boolean;
+  isQueueRunning: boolean;
+  busyImageIds: string[];
+  onToggleExpand: () => void;
+  onUpdate: (update: (job: BatchJob) => BatchJob) => void;
+  onRemove: () => void;
+  onRegenerate: (image: ImageItem) => void;
+  prepareDownload: (src: string) => Promise<string>;
+}> = ({ job, anglePresets, isExpanded, isQueueRunning, busyImageIds, onToggleExpand, onUpdate, onRemove, onRegenerate, prepareDownload }) => {
+  const isLocked = job.status === 'running';
+  const selectedCount = anglePresets.filter(p => job.angleIds.includes(p.id)).length;
+
+  const toggleAngle = (id: string) => {
+    onUpdate(j => ({ ...j, angleIds: j.angleIds.includes(id) ? j.angleIds.filter(a => a !== id) : [...j.angleIds, id] }));
+  };
+
+  return (
+    <li className="bg-slate-800/60 border border-slate-700 rounded-xl overflow-hidden">
+      <div className="flex items-center gap-3 p-3">
+        <img src={job.sourceImage} alt={job.name} className="w-12 h-12 rounded-lg object-cover flex-shrink-0" />
+        <div className="flex-grow min-w-0">
+          <p className="text-sm font-medium text-slate-100 truncate">{job.name}</p>
+          <p className="text-xs text-slate-400">
+            {job.images.length}/{selectedCount} images
+            {job.failures.length > 0 && <span className="text-red-300"> · {job.failures.length} failed</span>}
+            {job.error && <span className="text-red-300"> · {job.error}</span>}
+          </p>
+        </div>
+        <span className={`px-2 py-0.5 rounded-md text-xs font-medium capitalize ${STATUS_STYLES[job.status]}`}>{job.status}</span>
+        {(job.status === 'done' || job.status === 'failed') && !isQueueRunning && (
+          <button onClick={() => onUpdate(j => ({ ...j, status: 'queued', error: undefined }))} className="p-1.5 text-slate-400 hover:text-white transition-colors" aria-label="Queue again">
+            <RefreshIcon className="w-4 h-4" />
+          </button>
+        )}
+        <button onClick={onRemove} disabled={isLocked} className="p-1.5 text-slate-400 hover:text-red-400 disabled:opacity-30 transition-colors" aria-label="Remove product">
+          <TrashIcon className="w-4 h-4" />
+        </button>
+        <button onClick={onToggleExpand} className="p-1.5 text-slate-400 hover:text-white transition-colors" aria-label={isExpanded ? 'Collapse' : 'Expand'}>
+          {isExpanded ? <ChevronUpIcon className="w-4 h-4" /> : <ChevronDownIcon className="w-4 h-4" />}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="border-t border-slate-700 p-4 space-y-4">
+          <div className={isLocked ? 'opacity-60 pointer-events-none' : ''}>
+            <p className="text-sm font-semibold text-slate-300 mb-2">Angles for this product</p>
+            <div className="flex flex-wrap gap-1.5">
+              {anglePresets.map(preset => (
+                <button
+                  key={preset.id}
+                  onClick={() => toggleAngle(preset.id)}
+                  className={`px-2 py-1 rounded-md text-xs transition-colors ${job.angleIds.includes(preset.id) ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+                >
+                  {preset.name}
+                </button>
+              ))}
+            </div>
+          </div>
+          <ProductInfoPanel product={job.product ?? createProductInfo()} onProductChange={(product) => onUpdate(j => ({ ...j, product }))} />
+          <GeneratedImageGallery
+            images={job.images}
+            onReorder={(images) => onUpdate(j => ({ ...j, images }))}
+            onRegenerate={onRegenerate}
+            onDelete={(image) => onUpdate(j => ({ ...j, images: j.images.filter(img => img.id !== image.id) }))}
+            busyImageIds={busyImageIds}
+            prepareDownload={prepareDownload}
+            product={job.product ?? createProductInfo(job.name)}
+            isLoading={job.status === 'running'}
+            totalToGenerate={selectedCount}
+          />
+          {job.failures.length > 0 && (
+            <ul className="text-sm text-red-300 space-y-1">
+              {job.failures.map(fail => <li key={fail.angle.id} title={fail.detail}><span className="font-medium">{fail.angle.name}:</span> {describeGenerationError(fail.kind)}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+    </li>
+  );
+};
+
+const BatchQueue: React.FC<BatchQueueProps> = ({ initialJobs, anglePresets, defaultAngleIds, resolveProvider, generationSettings, albumOptions, onAlbumOptionsChange, onExit }) => {
+  const [jobs, setJobs] = useState<BatchJob[]>(initialJobs);
+  const [concurrency, setConcurrency] = useState<number>(2);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [expandedJobId, setExpandedJobId] = useState<string | null>(null);
+  const [regeneratingImageIds, setRegeneratingImageIds] = useState<string[]>([]);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const [showAlbumEditor, setShowAlbumEditor] = useState<boolean>(false);
+  const [retryStats, setRetryStats] = useState({ retries: 0, rateLimited: 0 });
+  const queueControllerRef = useRef<AbortController | null>(null);
+  const addInputRef = useRef<HTMLInputElement>(null);
+  // Queued rows stay editable while the queue runs, so workers read each job when its turn comes
+  const jobsRef = useRef<BatchJob[]>(jobs);
+  jobsRef.current = jobs;
+
+  const updateJob = (jobId: string, update: (job: BatchJob) => BatchJob) => {
+    setJobs(prev => prev.map(job => (job.id === jobId ? update(job) : job)));
+  };
+
+  const anglesForJob = (job: BatchJob) => anglePresets.filter(p => job.angleIds.includes(p.id));
+
+  const handleAddFiles = async (e: ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    if (files.length === 0) return;
+    const newJobs = await createBatchJobs(files, defaultAngleIds);
+    setJobs(prev => [...prev, ...newJobs]);
+  };
+
+  const handleStartQueue = async () => {
+    const queuedIds = jobs.filter(job => job.status === 'queued').map(job => job.id);
+    if (queuedIds.length === 0) return;
+
+    const controller = new AbortController();
+    queueControllerRef.current = controller;
+    setIsRunning(true);
+    setRetryStats({ retries: 0, rateLimited: 0 });
+    const provider = resolveProvider();
+    const onRetry = (_jobId: string, event: RetryEvent) =>
+      setRetryStats(prev => ({ retries: prev.retries + 1, rateLimited: prev.rateLimited + (event.rateLimited ? 1 : 0) }));
+
+    try {
+      await runWithConcurrency(
+        queuedIds,
+        concurrency,
+        async (jobId: string) => {
+          // Skip jobs removed since Start was clicked
+          const job = jobsRef.current.find(j => j.id === jobId);
+          if (!job || job.status !== 'queued') return;
+          await runBatchJob(job, anglesForJob(job), { provider, signal: controller.signal, onUpdate: updateJob, onRetry, settings: generationSettings });
+        },
+        controller.signal
+      );
+    } finally {
+      queueControllerRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const handleRegenerate = async (job: BatchJob, image: ImageItem) => {
+    if (!image.angle) return;
+    const angle = image.angle;
+    setRegeneratingImageIds(prev => [...prev, image.id]);
+    try {
+      const variation = await generateAngleVariation(job.sourceImage, job.sourceMimeType, angle, {
+        provider: resolveProvider(),
+        modelId: generationSettings.modelId || undefined,
+        seed: generationSettings.seed,
+        resolution: generationSettings.resolution,
+      });
+      updateJob(job.id, j => ({
+        ...j,
+        images: j.images.map(img => (img.id === image.id ? addVersion(img, { kind: 'regeneration', src: variation.src, metadata: variation.metadata, prompt: variation.prompt }) : img)),
+        failures: j.failures.filter(f => f.angle.id !== angle.id),
+      }));
+    } catch (error) {
+      updateJob(job.id, j => ({
+        ...j,
+        failures: [...j.failures.filter(f => f.angle.id !== angle.id), toGenerationFailure(error, angle, j.angleIds.indexOf(angle.id))],
+      }));
+    } finally {
+      setRegeneratingImageIds(prev => prev.filter(id => id !== image.id));
+    }
+  };
+
+  const handleExportAll = async () => {
+    setExportProgress(0);
+    try {
+      await downloadBatchZip(jobs, albumOptions, undefined, (p) => setExportProgress(Math.round(p)));
+    } catch (error) {
+      console.error("Failed to export batch zip:", error);
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
+  const counts = jobs.reduce<Record<BatchJobStatus, number>>(
+    (acc, job) => ({ ...acc, [job.status]: acc[job.status] + 1 }),
+    { queued: 0, running: 0, done: 0, failed: 0 }
+  );
+  const hasResults = jobs.some(job => job.images.length > 0);
+  const previewJob = jobs.find(job => job.images.length > 0);
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-8 lg:gap-12">
+      {/* --- Queue Controls (Left) --- */}
+      <aside className="lg:w-1/3 xl:w-1/4">
+        <div className="sticky top-8 space-y-6">
+          <div className="bg-slate-800/50 p-5 rounded-xl border border-slate-700 space-y-5">
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              {(Object.keys(counts) as BatchJobStatus[]).map(status => (
+                <div key={status} className={`rounded-lg px-3 py-2 ${STATUS_STYLES[status]}`}>
+                  <span className="capitalize">{status}</span>
+                  <span className="float-right font-semibold">{counts[status]}</span>
+                </div>
+              ))}
+            </div>
+            {retryStats.retries > 0 && (
+              <p className="text-xs text-amber-300/80">
+                {retryStats.retries} {retryStats.retries === 1 ? 'retry' : 'retries'}
+                {retryStats.rateLimited > 0 && ` · ${retryStats.rateLimited} rate-limited`}
+              </p>
+            )}
+            <VariationSlider
+              label="Products in Parallel"
+              value={concurrency}
+              onChange={(e) => setConcurrency(parseInt(e.target.value, 10))}
+              min={1}
+              max={5}
+              disabled={isRunning}
+            />
+            {isRunning ? (
+              <button
+                  onClick={() => queueControllerRef.current?.abort()}
+                  className="w-full flex items-center justify-center gap-2 bg-red-600/20 text-red-300 font-semibold py-3 px-4 rounded-lg hover:bg-red-600/30 transition-colors"
+              >
+                  <CloseIcon className="w-5 h-5" />
+                  Cancel Queue
+              </button>
+            ) : (
+              <button
+                  onClick={handleStartQueue}
+                  disabled={counts.queued === 0}
+                  className="w-full flex items-center justify-center gap-2.5 bg-blue-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-blue-500 transition-all duration-200 transform hover:scale-[1.02] disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed disabled:scale-100"
+              >
+                  <SparklesIcon />
+                  {counts.queued === 1 ? 'Process 1 Product' : `Process ${counts.queued} Products`}
+              </button>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <button
+                onClick={() => addInputRef.current?.click()}
+                className="w-full flex items-center justify-center gap-2.5 bg-transparent border border-slate-600 text-slate-200 font-semibold py-3 px-4 rounded-lg hover:bg-slate-700 transition-colors"
+            >
+                <PlusIcon className="w-5 h-5" />
+                Add Products
+            </button>
+            <input ref={addInputRef} type="file" multiple accept="image/png, image/jpeg, image/webp" className="sr-only" onChange={handleAddFiles} />
+            {hasResults && (
+              <>
+                <button
+                    onClick={() => setShowAlbumEditor(true)}
+                    className="w-full flex items-center justify-center gap-2.5 bg-transparent border border-slate-600 text-slate-200 font-semibold py-3 px-4 rounded-lg hover:bg-slate-700 transition-colors"
+                >
+                    <EyeIcon />
+                    Customize Album Style
+                </button>
+                <button
+                    onClick={handleExportAll}
+                    disabled={exportProgress !== null || isRunning}
+                    className="w-full flex items-center justify-center gap-2.5 bg-transparent border border-slate-600 text-slate-200 font-semibold py-3 px-4 rounded-lg hover:bg-slate-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <ArchiveIcon />
+                    {exportProgress !== null ? `Exporting... ${exportProgress}%` : 'Export All (ZIP)'}
+                </button>
+              </>
+            )}
+            <button
+                onClick={() => { queueControllerRef.current?.abort(); onExit(); }}
+                className="w-full bg-slate-700/50 text-slate-300 font-medium py-3 px-4 rounded-lg hover:bg-slate-700 transition-colors"
+            >
+                Exit Batch Mode
+            </button>
+          </div>
+        </div>
+      </aside>
+
+      {/* --- Job List (Right) --- */}
+      <div className="lg:w-2/3 xl:w-3/4">
+        <h3 className="text-lg font-semibold mb-4 text-slate-200">Batch Queue ({jobs.length} products)</h3>
+        <ul className="space-y-3">
+          {jobs.map(job => (
+            <BatchJobRow
+              key={job.id}
+              job={job}
+              anglePresets={anglePresets}
+              isExpanded={expandedJobId === job.id}
+              isQueueRunning={isRunning}
+              busyImageIds={regeneratingImageIds}
+              onToggleExpand={() => setExpandedJobId(prev => (prev === job.id ? null : job.id))}
+              onUpdate={(update) => updateJob(job.id, update)}
+              onRemove={() => setJobs(prev => prev.filter(j => j.id !== job.id))}
+              onRegenerate={(image) => handleRegenerate(job, image)}
+              prepareDownload={(src) => watermarkForExport(src, albumOptions)}
+            />
+          ))}
+        </ul>
+      </div>
+
+      {showAlbumEditor && previewJob && (
+        <AlbumPreviewModal
+          images={[{ id: 'original', src: previewJob.sourceImage, label: 'Original' }, ...previewJob.images]}
+          initialOptions={albumOptions}
+          onOptionsChange={onAlbumOptionsChange}
+          onClose={() => setShowAlbumEditor(false)}
+          product={previewJob.product}
+          catalogProducts={jobs.filter(job => job.images.length > 0).map(job => toCatalogProduct(job.product, job.name, [{ id: 'original', src: job.sourceImage, label: 'Original' }, ...job.images]))}
+        />
+      )}
+    </div>
+  );
+};
+
+export default BatchQueue;
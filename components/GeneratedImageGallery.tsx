@@ -1,26 +1,96 @@
-import React, { useState } from 'react';
-import { DownloadIcon, ImageIcon } from './icons';
-import type { ImageItem } from '../types';
+import React, { useEffect, useState } from 'react';
+import { ClockIcon, ColumnsIcon, DownloadIcon, ImageIcon, PencilIcon, RefreshIcon, ScissorsIcon, SparklesIcon, TrashIcon, UndoIcon } from './icons';
+import { renderEditedImage, resolveImageSrc } from '../services/imageEditService';
+import { getActiveVersionId, getParentVersion, getVersions } from '../services/imageVersionService';
+import { isLikelyDrift } from '../services/qualityCheckService';
+import { productImageFileName } from '../services/productService';
+import type { GenerationSlot, ImageItem, ProductInfo, QualityReport } from '../types';
 
 interface GeneratedImageGalleryProps {
   images: ImageItem[];
   onReorder: (reorderedImages: ImageItem[]) => void;
+  onRegenerate: (image: ImageItem) => void;
+  onDelete: (image: ImageItem) => void;
+  onRemoveBackground?: (image: ImageItem) => void;
+  onEdit?: (image: ImageItem) => void;
+  onRefine?: (image: ImageItem) => void;
+  onRevert?: (image: ImageItem) => void; // volta para a versão de onde o refinamento saiu
+  onShowVersions?: (image: ImageItem) => void;
+  qualityThreshold?: number; // com ele, cada imagem verificada mostra o score de fidelidade
+  prepareDownload?: (src: string) => Promise<string>; // ex.: aplica a marca d'água antes do download
+  product?: ProductInfo; // dá nome aos arquivos baixados
+  busyImageIds: string[];
   isLoading: boolean;
   totalToGenerate: number;
+  pendingSlots?: GenerationSlot[]; // com vagas, cada uma vira um placeholder no lugar do seu ângulo
 }
 
+// Xadrez atrás dos recortes, para o fundo transparente ficar visível
+const CHECKERBOARD_STYLE: React.CSSProperties = {
+  backgroundColor: '#e2e8f0',
+  backgroundImage: 'linear-gradient(45deg, #cbd5e1 25%, transparent 25%, transparent 75%, #cbd5e1 75%), linear-gradient(45deg, #cbd5e1 25%, transparent 25%, transparent 75%, #cbd5e1 75%)',
+  backgroundSize: '16px 16px',
+  backgroundPosition: '0 0, 8px 8px',
+};
+
+// File extension matching the data URL's MIME type
+const extensionOf = (dataUrl: string): string => {
+  const mime = /^data:([^;,]+)/.exec(dataUrl)?.[1];
+  return mime === 'image/jpeg' ? 'jpg' : mime === 'image/webp' ? 'webp' : 'png';
+};
+
 const ImageCard: React.FC<{ 
     image: ImageItem; 
     index: number;
     onDragStart: (index: number) => void;
     onDragEnter: (index: number) => void;
     onDragEnd: () => void;
+    onRegenerate: (image: ImageItem) => void;
+    onDelete: (image: ImageItem) => void;
+    onRemoveBackground?: (image: ImageItem) => void;
+    onEdit?: (image: ImageItem) => void;
+    onRefine?: (image: ImageItem) => void;
+    onRevert?: (image: ImageItem) => void;
+    onShowVersions?: (image: ImageItem) => void;
+    qualityThreshold?: number;
+    prepareDownload?: (src: string) => Promise<string>;
+    product?: ProductInfo;
     isDragging: boolean;
-}> = ({ image, index, onDragStart, onDragEnter, onDragEnd, isDragging }) => {
-  const handleDownload = () => {
+    isBusy: boolean;
+    isDraggable: boolean;
+}> = ({ image, index, onDragStart, onDragEnter, onDragEnd, onRegenerate, onDelete, onRemoveBackground, onEdit, onRefine, onRevert, onShowVersions, qualityThreshold, prepareDownload, product, isDragging, isBusy, isDraggable }) => {
+  const [showComparison, setShowComparison] = useState(false);
+  const [editedPreview, setEditedPreview] = useState<string | null>(null);
+  const parentVersion = getParentVersion(image);
+  const versions = getVersions(image);
+  const activeVersionIndex = versions.findIndex(version => version.id === getActiveVersionId(image));
+  // The cutout compares against the image with its background; a refinement against its parent version
+  const comparison = image.originalSrc
+    ? { src: image.originalSrc, before: 'Before', after: 'After' }
+    : parentVersion
+      ? { src: parentVersion.src, before: 'Parent', after: versions[activeVersionIndex].kind === 'edit' ? 'Edited' : 'Refined' }
+      : null;
+  const isCutout = !!image.originalSrc && !showComparison;
+  const displayedSrc = showComparison && comparison ? comparison.src : editedPreview ?? image.src;
+
+  // Reduced render of the edit stack, just for the card
+  useEffect(() => {
+    if (!image.edits?.length) {
+      setEditedPreview(null);
+      return;
+    }
+    let cancelled = false;
+    renderEditedImage(image.src, image.edits, 600)
+      .then(src => { if (!cancelled) setEditedPreview(src); })
+      .catch(error => console.error("Failed to render edited preview:", error));
+    return () => { cancelled = true; };
+  }, [image.src, image.edits]);
+
+  const handleDownload = async () => {
     const link = document.createElement('a');
-    link.href = image.src;
-    link.download = `product_shot_${Date.now()}.png`;
+    const src = showComparison && comparison ? comparison.src : await resolveImageSrc(image);
+    link.href = prepareDownload ? await prepareDownload(src) : src;
+    link.download = productImageFileName(product, image.label, extensionOf(link.href));
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -30,28 +100,138 @@ const ImageCard: React.FC<{
 
   return (
     <div 
-      draggable 
+      draggable={isDraggable}
       onDragStart={() => onDragStart(index)}
       onDragEnter={() => onDragEnter(index)}
       onDragEnd={onDragEnd}
       onDragOver={(e) => e.preventDefault()}
       className={`group relative aspect-square bg-slate-800 rounded-xl overflow-hidden ring-1 ring-slate-700/50 transition-all hover:ring-blue-500 hover:scale-[1.03] cursor-grab active:cursor-grabbing ${opacity}`}
     >
-      <img src={image.src} alt="Generated product shot" className="w-full h-full object-cover pointer-events-none" />
-      <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
-         <button onClick={handleDownload} className="p-3 bg-white/10 rounded-full text-white hover:bg-white/20 backdrop-blur-sm transition-colors" aria-label="Download Image">
-            <DownloadIcon className="w-6 h-6" />
-         </button>
-      </div>
+      <img
+        src={displayedSrc}
+        alt="Generated product shot"
+        className="w-full h-full object-cover pointer-events-none"
+        style={isCutout ? CHECKERBOARD_STYLE : undefined}
+      />
+      {isBusy ? (
+        <div className="absolute inset-0 bg-black/60 flex items-center justify-center">
+          <RefreshIcon className="w-8 h-8 text-white animate-spin" />
+        </div>
+      ) : (
+        <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex flex-wrap content-center items-center justify-center gap-2 p-4">
+           <button onClick={handleDownload} className="p-3 bg-white/10 rounded-full text-white hover:bg-white/20 backdrop-blur-sm transition-colors" aria-label="Download Image">
+              <DownloadIcon className="w-6 h-6" />
+           </button>
+           {onEdit && (
+             <button onClick={() => onEdit(image)} className="p-3 bg-white/10 rounded-full text-white hover:bg-white/20 backdrop-blur-sm transition-colors" aria-label="Edit Image">
+                <PencilIcon className="w-6 h-6" />
+             </button>
+           )}
+           {onRefine && (
+             <button onClick={() => onRefine(image)} className="p-3 bg-white/10 rounded-full text-white hover:bg-white/20 backdrop-blur-sm transition-colors" aria-label="Refine Image">
+                <SparklesIcon className="w-6 h-6" />
+             </button>
+           )}
+           {onRevert && parentVersion && (
+             <button onClick={() => onRevert(image)} className="p-3 bg-white/10 rounded-full text-white hover:bg-white/20 backdrop-blur-sm transition-colors" aria-label="Revert to Parent Version">
+                <UndoIcon className="w-6 h-6" />
+             </button>
+           )}
+           {onShowVersions && versions.length > 1 && (
+             <button onClick={() => onShowVersions(image)} className="p-3 bg-white/10 rounded-full text-white hover:bg-white/20 backdrop-blur-sm transition-colors" aria-label="Version History">
+                <ClockIcon className="w-6 h-6" />
+             </button>
+           )}
+           {onRemoveBackground && !image.originalSrc && (
+             <button onClick={() => onRemoveBackground(image)} className="p-3 bg-white/10 rounded-full text-white hover:bg-white/20 backdrop-blur-sm transition-colors" aria-label="Remove Background">
+                <ScissorsIcon className="w-6 h-6" />
+             </button>
+           )}
+           {image.angle && (
+             <button onClick={() => onRegenerate(image)} className="p-3 bg-white/10 rounded-full text-white hover:bg-white/20 backdrop-blur-sm transition-colors" aria-label="Regenerate Image">
+                <RefreshIcon className="w-6 h-6" />
+             </button>
+           )}
+           <button onClick={() => onDelete(image)} className="p-3 bg-white/10 rounded-full text-white hover:bg-red-500/40 backdrop-blur-sm transition-colors" aria-label="Delete Image">
+              <TrashIcon className="w-6 h-6" />
+           </button>
+        </div>
+      )}
+      {comparison && !isBusy && (
+        <button
+          onClick={() => setShowComparison(prev => !prev)}
+          className="absolute top-2 right-2 flex items-center gap-1 px-2 py-0.5 rounded-md bg-black/60 text-xs text-white hover:bg-black/80 transition-colors"
+          aria-label={showComparison ? `Show ${comparison.after.toLowerCase()} image` : `Show ${comparison.before.toLowerCase()} image`}
+          aria-pressed={showComparison}
+        >
+          <ColumnsIcon className="w-3.5 h-3.5" />{showComparison ? comparison.before : comparison.after}
+        </button>
+      )}
+      {versions.length > 1 && (
+        <span className="absolute top-2 left-2 px-2 py-0.5 rounded-md bg-black/60 text-xs text-white" title={versions[activeVersionIndex].instruction}>
+          v{activeVersionIndex + 1}/{versions.length}
+        </span>
+      )}
+      {image.quality && qualityThreshold !== undefined && (
+        <QualityBadge report={image.quality} threshold={qualityThreshold} />
+      )}
+      <span className="absolute bottom-2 left-2 px-2 py-0.5 rounded-md bg-black/60 text-xs text-white pointer-events-none">{image.label}{image.edits?.length ? ' · edited' : ''}</span>
     </div>
   );
 }
 
+// Fidelity score against the reference; the tooltip lists every check
+const QualityBadge: React.FC<{ report: QualityReport; threshold: number }> = ({ report, threshold }) => {
+  const isDrift = isLikelyDrift(report, threshold);
+  const tone = isDrift ? 'bg-red-600/90' : report.score < Math.min(100, threshold + 20) ? 'bg-amber-500/90' : 'bg-green-600/90';
+  const tooltip = report.checks.map(check => `${check.passed ? '✓' : '✗'} ${check.message}`).join('\n');
+  return (
+    <span className={`absolute bottom-2 right-2 px-2 py-0.5 rounded-md text-xs font-semibold text-white ${tone}`} title={tooltip}>
+      {isDrift ? `Drift · ${report.score}` : report.score}
+    </span>
+  );
+};
+
 const PlaceholderCard: React.FC = () => (
     <div className="aspect-square bg-slate-800 rounded-xl animate-pulse"></div>
 );
 
-const GeneratedImageGallery: React.FC<GeneratedImageGalleryProps> = ({ images, onReorder, isLoading, totalToGenerate }) => {
+const SLOT_STATUS_LABELS: Record<GenerationSlot['status'], string> = {
+  queued: 'Queued',
+  running: 'Generating',
+  retrying: 'Retrying',
+};
+
+// Placeholder de um ângulo em andamento, com status e tempo decorrido
+const SlotCard: React.FC<{ slot: GenerationSlot }> = ({ slot }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (slot.status === 'queued') return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [slot.status]);
+
+  const elapsed = slot.startedAt ? Math.max(0, Math.floor((now - slot.startedAt) / 1000)) : 0;
+  const retryIn = slot.retryAt ? Math.max(0, Math.ceil((slot.retryAt - now) / 1000)) : 0;
+
+  return (
+    <div className={`relative aspect-square bg-slate-800 rounded-xl ring-1 ring-slate-700/50 flex flex-col items-center justify-center gap-2 p-3 text-center ${slot.status === 'queued' ? '' : 'animate-pulse'}`}>
+      {slot.status === 'queued' ? <ClockIcon className="w-7 h-7 text-slate-600" /> : <RefreshIcon className={`w-7 h-7 ${slot.status === 'retrying' ? 'text-amber-400' : 'text-blue-400 animate-spin'}`} />}
+      <span className="text-sm font-medium text-slate-300">{SLOT_STATUS_LABELS[slot.status]}</span>
+      {slot.status !== 'queued' && (
+        <span className="text-xs text-slate-400">
+          {elapsed}s
+          {slot.attempt > 1 && ` · attempt ${slot.attempt}`}
+          {slot.status === 'retrying' && ` · next in ${retryIn}s`}
+        </span>
+      )}
+      <span className="absolute bottom-2 left-2 px-2 py-0.5 rounded-md bg-black/60 text-xs text-white">{slot.angle.name}</span>
+    </div>
+  );
+};
+
+const GeneratedImageGallery: React.FC<GeneratedImageGalleryProps> = ({ images, onReorder, onRegenerate, onDelete, onRemoveBackground, onEdit, onRefine, onRevert, onShowVersions, qualityThreshold, prepareDownload, product, busyImageIds, isLoading, totalToGenerate, pendingSlots = [] }) => {
   const [dragItemIndex, setDragItemIndex] = useState<number | null>(null);
   
   const handleDragStart = (index: number) => {
@@ -83,20 +263,51 @@ const GeneratedImageGallery: React.FC<GeneratedImageGalleryProps> = ({ images, o
     );
   }
 
-  const placeholdersCount = isLoading && images.length === 0 ? totalToGenerate : 0;
+  const placeholdersCount = isLoading && images.length === 0 && pendingSlots.length === 0 ? totalToGenerate : 0;
+  const hasSlots = pendingSlots.length > 0;
+
+  // With pending slots, images fill the gaps the slots leave, in gallery order; reordering waits until the run ends
+  const imageRunIndex = new Map<string, number>();
+  if (hasSlots) {
+    const slotIndexes = new Set(pendingSlots.map(slot => slot.angleIndex));
+    let next = 0;
+    images.forEach(image => {
+      while (slotIndexes.has(next)) next++;
+      imageRunIndex.set(image.id, next++);
+    });
+  }
+
+  const cells = [
+    ...images.map((image, index) => ({ order: imageRunIndex.get(image.id) ?? index, image, index, slot: undefined as GenerationSlot | undefined })),
+    ...pendingSlots.map(slot => ({ order: slot.angleIndex, image: undefined as ImageItem | undefined, index: -1, slot })),
+  ].sort((a, b) => a.order - b.order);
 
   return (
     <div className="grid grid-cols-2 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-      {images.map((img, index) => (
+      {cells.map(cell => cell.image ? (
         <ImageCard 
-            key={img.id}
-            image={img}
-            index={index}
+            key={cell.image.id}
+            image={cell.image}
+            index={cell.index}
             onDragStart={handleDragStart}
             onDragEnter={handleDragEnter}
             onDragEnd={handleDragEnd}
-            isDragging={dragItemIndex === index}
+            onRegenerate={onRegenerate}
+            onDelete={onDelete}
+            onRemoveBackground={onRemoveBackground}
+            onEdit={onEdit}
+            onRefine={onRefine}
+            onRevert={onRevert}
+            onShowVersions={onShowVersions}
+            qualityThreshold={qualityThreshold}
+            prepareDownload={prepareDownload}
+            product={product}
+            isDragging={dragItemIndex === cell.index}
+            isBusy={busyImageIds.includes(cell.image.id)}
+            isDraggable={!hasSlots}
         />
+      ) : (
+        <SlotCard key={`slot-${cell.slot!.angleIndex}`} slot={cell.slot!} />
       ))}
       {Array.from({ length: placeholdersCount }).map((_, index) => (
         <PlaceholderCard key={`placeholder-${index}`} />
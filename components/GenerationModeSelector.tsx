@@ -0,0 +1,92 @@
+import React from 'react';
+import { listImageProviders } from '../services/providers';
+import type { MockFailureKind, MockProviderConfig } from '../services/providers/mockProvider';
+
+interface GenerationModeSelectorProps {
+  providerId: string;
+  onProviderChange: (providerId: string) => void;
+  mockConfig: MockProviderConfig;
+  onMockConfigChange: (config: MockProviderConfig) => void;
+  disabled?: boolean;
+}
+
+const FAILURE_KIND_LABELS: Record<MockFailureKind, string> = {
+  safety: 'Safety block',
+  network: 'Network error',
+  finishReason: 'Finish reason',
+  rateLimit: 'Rate limit (429)',
+};
+
+const GenerationModeSelector: React.FC<GenerationModeSelectorProps> = ({ providerId, onProviderChange, mockConfig, onMockConfigChange, disabled }) => {
+  const toggleFailureKind = (kind: MockFailureKind) => {
+    const failureKinds = mockConfig.failureKinds.includes(kind)
+      ? mockConfig.failureKinds.filter(k => k !== kind)
+      : [...mockConfig.failureKinds, kind];
+    onMockConfigChange({ ...mockConfig, failureKinds });
+  };
+
+  return (
+    <div className={`space-y-3 ${disabled ? 'opacity-60' : ''}`}>
+      <div>
+        <label htmlFor="provider-select" className="block font-semibold text-slate-300 text-base mb-1.5">Generation Mode</label>
+        <select
+          id="provider-select"
+          value={providerId}
+          onChange={(e) => onProviderChange(e.target.value)}
+          disabled={disabled}
+          className="w-full bg-slate-700 text-white rounded-md border border-slate-600 px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          {listImageProviders().map(provider => (
+            <option key={provider.id} value={provider.id}>{provider.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {providerId === 'mock' && (
+        <div className="space-y-3 bg-slate-700/40 rounded-lg p-3 text-sm">
+          <div className="flex items-center justify-between gap-2">
+            <label htmlFor="mock-latency" className="text-slate-300">Latency (ms)</label>
+            <input
+              id="mock-latency"
+              type="number"
+              min={0}
+              step={100}
+              value={mockConfig.latencyMs}
+              onChange={(e) => onMockConfigChange({ ...mockConfig, latencyMs: Math.max(0, Number(e.target.value)) })}
+              disabled={disabled}
+              className="w-24 bg-slate-700 text-white rounded-md border border-slate-600 px-2 py-1 text-right"
+            />
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <label htmlFor="mock-failure-rate" className="text-slate-300">Failure rate</label>
+            <span className="text-slate-400 font-mono">{Math.round(mockConfig.failureRate * 100)}%</span>
+          </div>
+          <input
+            id="mock-failure-rate"
+            type="range"
+            min={0}
+            max={100}
+            value={Math.round(mockConfig.failureRate * 100)}
+            onChange={(e) => onMockConfigChange({ ...mockConfig, failureRate: Number(e.target.value) / 100 })}
+            disabled={disabled}
+            className="w-full"
+          />
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(FAILURE_KIND_LABELS) as MockFailureKind[]).map(kind => (
+              <button
+                key={kind}
+                onClick={() => toggleFailureKind(kind)}
+                disabled={disabled}
+                className={`px-2 py-1 rounded-md text-xs transition-colors ${mockConfig.failureKinds.includes(kind) ? 'bg-blue-600 text-white' : 'bg-slate-600 text-slate-300 hover:bg-slate-500'}`}
+              >
+                {FAILURE_KIND_LABELS[kind]}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GenerationModeSelector;
@@ -0,0 +1,145 @@
+import React from 'react';
+import { RefreshIcon } from './icons';
+import { MAX_CANDIDATES_PER_ANGLE } from '../services/geminiService';
+import { requestLimiter } from '../services/requestLimiter';
+import type { GenerationSettings, OutputResolution, ProviderCapabilities } from '../types';
+
+interface GenerationSettingsPanelProps {
+  settings: GenerationSettings;
+  onSettingsChange: (settings: GenerationSettings) => void;
+  capabilities?: ProviderCapabilities;
+  disabled?: boolean;
+}
+
+const CUSTOM_MODEL = '__custom__';
+
+const randomSeed = () => Math.floor(Math.random() * 2 ** 31);
+
+// Label + value row above a plain range input, matching the identity check controls
+const RangeRow: React.FC<{ label: string; value: number; min: number; max: number; onChange: (value: number) => void; disabled?: boolean }> = ({ label, value, min, max, onChange, disabled }) => (
+  <label className="flex items-center justify-between gap-3 text-xs text-slate-400">
+    <span className="w-24 flex-shrink-0">{label}</span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      value={value}
+      onChange={e => onChange(Number(e.target.value))}
+      disabled={disabled}
+      className="flex-grow accent-blue-500"
+    />
+    <span className="w-5 text-right text-slate-300">{value}</span>
+  </label>
+);
+
+const GenerationSettingsPanel: React.FC<GenerationSettingsPanelProps> = ({ settings, onSettingsChange, capabilities, disabled }) => {
+  const models = capabilities?.models ?? [];
+  const resolutions = capabilities?.resolutions ?? [];
+  const isCustomModel = settings.modelId !== undefined && !models.includes(settings.modelId);
+  const effectiveModel = settings.modelId || models[0];
+  const modelIgnoresResolution = resolutions.length > 0 && !!capabilities?.resolutionModels && !capabilities.resolutionModels.includes(effectiveModel ?? '');
+  const update = (patch: Partial<GenerationSettings>) => onSettingsChange({ ...settings, ...patch });
+  // Every request goes through the shared limiter, so more parallel requests than it allows would just queue
+  const maxConcurrency = requestLimiter.getConfig().maxConcurrent;
+
+  const handleModelChange = (value: string) => {
+    if (value === CUSTOM_MODEL) update({ modelId: settings.modelId ?? '' });
+    else update({ modelId: value || undefined });
+  };
+
+  return (
+    <div className={`space-y-3 ${disabled ? 'opacity-60' : ''}`}>
+      <span className="block font-semibold text-slate-300 text-base">Generation Settings</span>
+
+      <div className="space-y-1.5">
+        <label htmlFor="generation-model" className="block text-xs text-slate-400">Model</label>
+        <select
+          id="generation-model"
+          value={isCustomModel ? CUSTOM_MODEL : settings.modelId ?? ''}
+          onChange={e => handleModelChange(e.target.value)}
+          disabled={disabled}
+          className="w-full bg-slate-700 text-white rounded-md border border-slate-600 px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">Provider default{models[0] ? ` (${models[0]})` : ''}</option>
+          {models.map(model => <option key={model} value={model}>{model}</option>)}
+          <option value={CUSTOM_MODEL}>Custom…</option>
+        </select>
+        {isCustomModel && (
+          <input
+            type="text"
+            value={settings.modelId}
+            onChange={e => update({ modelId: e.target.value })}
+            placeholder="Model id"
+            disabled={disabled}
+            className="w-full bg-slate-700 text-white rounded-md border border-slate-600 px-3 py-1.5 text-sm"
+          />
+        )}
+      </div>
+
+      <RangeRow label="Parallel requests" value={Math.min(settings.concurrency, maxConcurrency)} min={1} max={maxConcurrency} onChange={concurrency => update({ concurrency })} disabled={disabled} />
+      <RangeRow label="Candidates / angle" value={settings.candidatesPerAngle} min={1} max={MAX_CANDIDATES_PER_ANGLE} onChange={candidatesPerAngle => update({ candidatesPerAngle })} disabled={disabled} />
+      {settings.candidatesPerAngle > 1 && (
+        <p className="text-xs text-slate-500">
+          The candidate closest to the reference is kept; the others stay in the image's version history.
+        </p>
+      )}
+
+      <div className="flex items-center justify-between gap-2 text-xs text-slate-400">
+        <label htmlFor="generation-resolution">Resolution</label>
+        <select
+          id="generation-resolution"
+          value={settings.resolution ?? ''}
+          onChange={e => update({ resolution: (e.target.value || undefined) as OutputResolution | undefined })}
+          disabled={disabled || resolutions.length === 0 || modelIgnoresResolution}
+          className="bg-slate-700 text-white rounded-md border border-slate-600 px-2 py-1 text-sm disabled:opacity-50"
+        >
+          <option value="">Default</option>
+          {resolutions.map(resolution => <option key={resolution} value={resolution}>{resolution}</option>)}
+        </select>
+      </div>
+      {modelIgnoresResolution && (
+        <p className="text-xs text-slate-500">This model ignores the resolution; pick {capabilities!.resolutionModels!.join(' or ')} to set it.</p>
+      )}
+
+      <div className="flex items-center justify-between gap-2 text-xs text-slate-400">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.seed !== undefined}
+            onChange={e => update({ seed: e.target.checked ? randomSeed() : undefined })}
+            disabled={disabled || !capabilities?.seed}
+            className="rounded accent-blue-500"
+          />
+          Fixed seed
+        </label>
+        {settings.seed !== undefined && (
+          <div className="flex items-center gap-1">
+            <input
+              type="number"
+              min={0}
+              value={settings.seed}
+              onChange={e => update({ seed: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+              disabled={disabled || !capabilities?.seed}
+              className="w-28 bg-slate-700 text-white rounded-md border border-slate-600 px-2 py-1 text-right text-sm"
+              aria-label="Seed"
+            />
+            <button
+              onClick={() => update({ seed: randomSeed() })}
+              disabled={disabled || !capabilities?.seed}
+              className="p-1.5 rounded-md text-slate-300 hover:bg-slate-700 transition-colors"
+              aria-label="Random seed"
+              title="Random seed"
+            >
+              <RefreshIcon className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+      {(resolutions.length === 0 || !capabilities?.seed) && (
+        <p className="text-xs text-slate-500">Options this provider does not support are disabled and ignored.</p>
+      )}
+    </div>
+  );
+};
+
+export default GenerationSettingsPanel;
@@ -0,0 +1,261 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CloseIcon, RefreshIcon } from './icons';
+import { describeEdit, isNeutralAdjustments, NEUTRAL_ADJUSTMENTS, renderEditedCanvas } from '../services/imageEditService';
+import type { AlbumOptions, ImageAdjustments, ImageEdit, ImageItem } from '../types';
+
+interface ImageEditorModalProps {
+  image: ImageItem;
+  albumAspectRatio: AlbumOptions['imageAspectRatio'];
+  onSave: (edits: ImageEdit[]) => void;
+  onClose: () => void;
+}
+
+type CropRatio = 'original' | Exclude<AlbumOptions['imageAspectRatio'], 'auto'>;
+
+const CROP_RATIOS: CropRatio[] = ['original', '1:1', '4:3', '3:4'];
+const PREVIEW_MAX_SIZE = 900;
+
+const ADJUSTMENT_SLIDERS: { key: keyof ImageAdjustments; label: string; min: number; max: number; step: number }[] = [
+  { key: 'exposure', label: 'Exposure', min: -2, max: 2, step: 0.1 },
+  { key: 'contrast', label: 'Contrast', min: -100, max: 100, step: 1 },
+  { key: 'temperature', label: 'Temperature', min: -100, max: 100, step: 1 },
+  { key: 'tint', label: 'Tint', min: -100, max: 100, step: 1 },
+  { key: 'saturation', label: 'Saturation', min: -100, max: 100, step: 1 },
+  { key: 'sharpen', label: 'Sharpen', min: 0, max: 100, step: 1 },
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Pushes an edit, folding it into the previous one when both are rotations or flips on the same axis
+const pushEdit = (edits: ImageEdit[], edit: ImageEdit): ImageEdit[] => {
+  const last = edits[edits.length - 1];
+  if (last?.type === 'rotate' && edit.type === 'rotate') {
+    const turns = (last.quarterTurns + edit.quarterTurns) % 4;
+    return turns === 0 ? edits.slice(0, -1) : [...edits.slice(0, -1), { type: 'rotate', quarterTurns: turns as 1 | 2 | 3 }];
+  }
+  if (last?.type === 'flip' && edit.type === 'flip' && last.axis === edit.axis) return edits.slice(0, -1);
+  return [...edits, edit];
+};
+
+const ToolButton: React.FC<{ onClick: () => void; active?: boolean; disabled?: boolean; children: React.ReactNode }> = ({ onClick, active, disabled, children }) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    className={`px-2.5 py-1.5 rounded-md text-xs font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${active ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-200 hover:bg-slate-600'}`}
+  >
+    {children}
+  </button>
+);
+
+const ImageEditorModal: React.FC<ImageEditorModalProps> = ({ image, albumAspectRatio, onSave, onClose }) => {
+  const [edits, setEdits] = useState<ImageEdit[]>(image.edits ?? []);
+  const [source, setSource] = useState<HTMLImageElement | null>(null);
+  const [preview, setPreview] = useState<{ src: string; width: number; height: number } | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isCropping, setIsCropping] = useState(false);
+  const [cropRatio, setCropRatio] = useState<CropRatio>(albumAspectRatio === 'auto' ? 'original' : albumAspectRatio);
+  const [cropSize, setCropSize] = useState(1);
+  const [cropCenter, setCropCenter] = useState({ x: 0.5, y: 0.5 });
+  const previewRef = useRef<HTMLImageElement>(null);
+  const dragRef = useRef<{ pointerX: number; pointerY: number; center: { x: number; y: number } } | null>(null);
+
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => setSource(img);
+    img.onerror = () => setLoadError('Could not load this image for editing.');
+    img.src = image.src;
+  }, [image.src]);
+
+  useEffect(() => {
+    if (!source) return;
+    const canvas = renderEditedCanvas(source, edits, PREVIEW_MAX_SIZE);
+    setPreview({ src: canvas.toDataURL('image/png'), width: canvas.width, height: canvas.height });
+  }, [source, edits]);
+
+  const lastEdit = edits[edits.length - 1];
+  const adjustments = lastEdit?.type === 'adjust' ? lastEdit.adjustments : NEUTRAL_ADJUSTMENTS;
+
+  // Slider changes update the adjustment on top of the stack instead of piling up new entries
+  const handleAdjustmentChange = (key: keyof ImageAdjustments, value: number) => {
+    setEdits(prev => {
+      const top = prev[prev.length - 1];
+      const base = top?.type === 'adjust' ? prev.slice(0, -1) : prev;
+      const next = { ...(top?.type === 'adjust' ? top.adjustments : NEUTRAL_ADJUSTMENTS), [key]: value };
+      return isNeutralAdjustments(next) ? base : [...base, { type: 'adjust', adjustments: next }];
+    });
+  };
+
+  // Crop rectangle in fractions of the current preview, the largest one with the chosen ratio scaled by cropSize
+  const cropRect = (() => {
+    if (!preview) return null;
+    const ratio = cropRatio === 'original' ? preview.width / preview.height : (() => {
+      const [w, h] = cropRatio.split(':').map(Number);
+      return w / h;
+    })();
+    let width = preview.width;
+    let height = width / ratio;
+    if (height > preview.height) {
+      height = preview.height;
+      width = height * ratio;
+    }
+    const nw = (width * cropSize) / preview.width;
+    const nh = (height * cropSize) / preview.height;
+    return {
+      x: clamp(cropCenter.x - nw / 2, 0, 1 - nw),
+      y: clamp(cropCenter.y - nh / 2, 0, 1 - nh),
+      width: nw,
+      height: nh,
+    };
+  })();
+
+  const handleCropPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, center: cropCenter };
+  };
+
+  const handleCropPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const bounds = previewRef.current?.getBoundingClientRect();
+    if (!drag || !bounds || !cropRect) return;
+    setCropCenter({
+      x: clamp(drag.center.x + (e.clientX - drag.pointerX) / bounds.width, cropRect.width / 2, 1 - cropRect.width / 2),
+      y: clamp(drag.center.y + (e.clientY - drag.pointerY) / bounds.height, cropRect.height / 2, 1 - cropRect.height / 2),
+    });
+  };
+
+  const handleApplyCrop = () => {
+    if (!cropRect) return;
+    setEdits(prev => pushEdit(prev, { type: 'crop', ...cropRect }));
+    setIsCropping(false);
+    setCropSize(1);
+    setCropCenter({ x: 0.5, y: 0.5 });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-2 sm:p-4" onClick={onClose} role="dialog" aria-modal="true" aria-labelledby="image-editor-title">
+      <div className="bg-slate-800 rounded-2xl shadow-2xl w-full max-w-6xl max-h-[95vh] overflow-hidden flex flex-col" onClick={e => e.stopPropagation()}>
+        <header className="p-4 border-b border-slate-700 flex justify-between items-center flex-shrink-0">
+          <h3 id="image-editor-title" className="text-lg font-semibold text-white">Edit · {image.label}</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors p-1 rounded-full hover:bg-slate-700" aria-label="Close editor">
+            <CloseIcon className="w-6 h-6" />
+          </button>
+        </header>
+
+        <div className="flex flex-col lg:flex-row flex-grow min-h-0">
+          <div className="flex-grow flex items-center justify-center p-4 bg-slate-900/60 min-h-[300px]">
+            {loadError ? (
+              <p className="text-sm text-red-400">{loadError}</p>
+            ) : !preview ? (
+              <RefreshIcon className="w-8 h-8 text-slate-500 animate-spin" />
+            ) : (
+              <div className="relative inline-block select-none">
+                <img ref={previewRef} src={preview.src} alt="Edited preview" className="max-w-full max-h-[70vh] object-contain" draggable={false} />
+                {isCropping && cropRect && (
+                  <div
+                    onPointerDown={handleCropPointerDown}
+                    onPointerMove={handleCropPointerMove}
+                    onPointerUp={() => { dragRef.current = null; }}
+                    className="absolute border-2 border-white cursor-move shadow-[0_0_0_9999px_rgba(0,0,0,0.55)]"
+                    style={{
+                      left: `${cropRect.x * 100}%`,
+                      top: `${cropRect.y * 100}%`,
+                      width: `${cropRect.width * 100}%`,
+                      height: `${cropRect.height * 100}%`,
+                    }}
+                  />
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="w-full lg:w-80 border-t lg:border-t-0 lg:border-l border-slate-700 p-4 space-y-5 overflow-y-auto">
+            <div className="space-y-2">
+              <h4 className="font-semibold text-slate-300 text-sm">Transform</h4>
+              <div className="flex flex-wrap gap-1.5">
+                <ToolButton onClick={() => setEdits(prev => pushEdit(prev, { type: 'rotate', quarterTurns: 3 }))} disabled={isCropping}>Rotate left</ToolButton>
+                <ToolButton onClick={() => setEdits(prev => pushEdit(prev, { type: 'rotate', quarterTurns: 1 }))} disabled={isCropping}>Rotate right</ToolButton>
+                <ToolButton onClick={() => setEdits(prev => pushEdit(prev, { type: 'flip', axis: 'horizontal' }))} disabled={isCropping}>Flip H</ToolButton>
+                <ToolButton onClick={() => setEdits(prev => pushEdit(prev, { type: 'flip', axis: 'vertical' }))} disabled={isCropping}>Flip V</ToolButton>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <h4 className="font-semibold text-slate-300 text-sm">Crop</h4>
+                <ToolButton onClick={() => setIsCropping(prev => !prev)} active={isCropping}>{isCropping ? 'Cancel' : 'Crop'}</ToolButton>
+              </div>
+              {isCropping && (
+                <>
+                  <div className="flex flex-wrap gap-1.5">
+                    {CROP_RATIOS.map(ratio => (
+                      <ToolButton key={ratio} onClick={() => setCropRatio(ratio)} active={cropRatio === ratio}>
+                        {ratio === 'original' ? 'Original' : ratio}
+                        {ratio === albumAspectRatio && ' · album'}
+                      </ToolButton>
+                    ))}
+                  </div>
+                  <label className="flex items-center gap-3 text-xs text-slate-400">
+                    Size
+                    <input type="range" min={0.2} max={1} step={0.01} value={cropSize} onChange={e => setCropSize(Number(e.target.value))} className="flex-grow accent-blue-500" />
+                  </label>
+                  <p className="text-xs text-slate-500">Drag the frame to position it.</p>
+                  <button onClick={handleApplyCrop} className="w-full py-1.5 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-500 transition-colors">Apply Crop</button>
+                </>
+              )}
+            </div>
+
+            <div className={`space-y-2 ${isCropping ? 'opacity-50 pointer-events-none' : ''}`}>
+              <h4 className="font-semibold text-slate-300 text-sm">Adjust</h4>
+              {ADJUSTMENT_SLIDERS.map(slider => (
+                <label key={slider.key} className="flex items-center gap-3 text-xs text-slate-400">
+                  <span className="w-20">{slider.label}</span>
+                  <input
+                    type="range"
+                    min={slider.min}
+                    max={slider.max}
+                    step={slider.step}
+                    value={adjustments[slider.key]}
+                    onChange={e => handleAdjustmentChange(slider.key, Number(e.target.value))}
+                    onDoubleClick={() => handleAdjustmentChange(slider.key, NEUTRAL_ADJUSTMENTS[slider.key])}
+                    className="flex-grow accent-blue-500"
+                  />
+                  <span className="w-8 text-right text-slate-300">{adjustments[slider.key]}</span>
+                </label>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <h4 className="font-semibold text-slate-300 text-sm">Edit Stack</h4>
+                <div className="flex gap-1.5">
+                  <ToolButton onClick={() => setEdits(prev => prev.slice(0, -1))} disabled={edits.length === 0}>Undo</ToolButton>
+                  <ToolButton onClick={() => setEdits([])} disabled={edits.length === 0}>Reset</ToolButton>
+                </div>
+              </div>
+              {edits.length === 0 ? (
+                <p className="text-xs text-slate-500">No edits. The generated image is always kept as is.</p>
+              ) : (
+                <ol className="text-xs text-slate-300 space-y-1 list-decimal list-inside">
+                  {edits.map((edit, index) => <li key={index}>{describeEdit(edit)}</li>)}
+                </ol>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <footer className="p-4 border-t border-slate-700 flex justify-end gap-2 flex-shrink-0">
+          <button onClick={onClose} className="py-2 px-4 rounded-lg text-sm font-medium bg-slate-700 text-slate-200 hover:bg-slate-600 transition-colors">Cancel</button>
+          <button
+            onClick={() => onSave(edits)}
+            disabled={isCropping || !!loadError}
+            className="py-2 px-4 rounded-lg text-sm font-semibold bg-blue-600 text-white hover:bg-blue-500 transition-colors disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed"
+          >
+            Save Edits
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default ImageEditorModal;
@@ -3,25 +3,35 @@ import { UploadIcon } from './icons';
 
 interface ImageUploaderProps {
   onImageUpload: (file: File) => void;
+  // When provided, selecting or dropping several files hands them all over (batch mode)
+  onImagesUpload?: (files: File[]) => void;
 }
 
-const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload }) => {
+const ACCEPTED_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, onImagesUpload }) => {
   const [isDragging, setIsDragging] = useState(false);
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      onImageUpload(e.target.files[0]);
+  const handleFiles = useCallback((fileList: FileList | null) => {
+    const files = (fileList ? Array.from(fileList) : []).filter(file => ACCEPTED_TYPES.includes(file.type));
+    if (files.length > 1 && onImagesUpload) {
+      onImagesUpload(files);
+    } else if (files[0]) {
+      onImageUpload(files[0]);
     }
+  }, [onImageUpload, onImagesUpload]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    handleFiles(e.target.files);
+    e.target.value = '';
   };
 
   const handleDrop = useCallback((e: React.DragEvent<HTMLLabelElement>) => {
     e.preventDefault();
     e.stopPropagation();
     setIsDragging(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      onImageUpload(e.dataTransfer.files[0]);
-    }
-  }, [onImageUpload]);
+    handleFiles(e.dataTransfer.files);
+  }, [handleFiles]);
 
   const handleDragOver = useCallback((e: React.DragEvent<HTMLLabelElement>) => {
     e.preventDefault();
@@ -55,6 +65,7 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload }) => {
             <span className="font-semibold text-blue-400">Clique para enviar</span>&nbsp;ou arraste e solte
         </div>
         <p className="text-xs text-slate-500">PNG, JPG, WEBP (máx. 10MB)</p>
+        {onImagesUpload && <p className="text-xs text-slate-500">Envie várias fotos de uma vez para o modo em lote</p>}
       </div>
       <input
         id="file-upload"
@@ -62,6 +73,7 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload }) => {
         type="file"
         className="sr-only"
         accept="image/png, image/jpeg, image/webp"
+        multiple={!!onImagesUpload}
         onChange={handleFileChange}
       />
     </label>
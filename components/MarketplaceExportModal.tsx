@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { ArchiveIcon, CloseIcon } from './icons';
+import { EXPORT_PROFILES, getViolations, processImagesForProfiles, type ProcessedExport } from '../services/exportProfileService';
+import { downloadMarketplaceZip } from '../services/zipService';
+import type { ImageItem } from '../types';
+
+interface MarketplaceExportModalProps {
+  images: ImageItem[];
+  productName: string;
+  onClose: () => void;
+}
+
+const slugifyBaseName = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'product';
+
+// One table cell: passed, or the list of violations on hover
+const ResultCell: React.FC<{ result?: ProcessedExport }> = ({ result }) => {
+  if (!result) return <td className="px-3 py-2 text-slate-600">—</td>;
+  const violations = getViolations(result);
+  const errors = violations.filter(v => v.severity === 'error');
+  const tooltip = result.checks.map(check => `${check.passed ? '✓' : '✗'} ${check.message}`).join('\n');
+
+  return (
+    <td className="px-3 py-2" title={tooltip}>
+      {errors.length > 0 ? (
+        <span className="inline-flex px-2 py-0.5 rounded-md bg-red-500/20 text-red-300 text-xs font-medium">{errors.length} {errors.length === 1 ? 'violation' : 'violations'}</span>
+      ) : violations.length > 0 ? (
+        <span className="inline-flex px-2 py-0.5 rounded-md bg-amber-500/20 text-amber-300 text-xs font-medium">OK · {violations.length} warning</span>
+      ) : (
+        <span className="inline-flex px-2 py-0.5 rounded-md bg-green-500/20 text-green-300 text-xs font-medium">OK</span>
+      )}
+      <span className="block text-[11px] text-slate-500 mt-0.5 truncate max-w-[10rem]">{result.fileName}</span>
+    </td>
+  );
+};
+
+const MarketplaceExportModal: React.FC<MarketplaceExportModalProps> = ({ images, productName, onClose }) => {
+  const [selectedProfileIds, setSelectedProfileIds] = useState<string[]>(['amazon']);
+  const [results, setResults] = useState<ProcessedExport[] | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedProfiles = EXPORT_PROFILES.filter(profile => selectedProfileIds.includes(profile.id));
+  const baseName = slugifyBaseName(productName);
+
+  const toggleProfile = (id: string) => {
+    setSelectedProfileIds(prev => (prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id]));
+    setResults(null);
+  };
+
+  const handleCheck = async () => {
+    setProgress(0);
+    setError(null);
+    try {
+      setResults(await processImagesForProfiles(images, selectedProfiles, baseName, p => setProgress(Math.round(p))));
+    } catch (err) {
+      console.error("Failed to process marketplace exports:", err);
+      setError(err instanceof Error ? err.message : 'Failed to process images.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const errorCount = results?.reduce((sum, result) => sum + getViolations(result).filter(v => v.severity === 'error').length, 0) ?? 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-2 sm:p-4" onClick={onClose} role="dialog" aria-modal="true" aria-labelledby="marketplace-export-title">
+      <div className="bg-slate-800 rounded-2xl shadow-2xl w-full max-w-5xl max-h-[95vh] overflow-hidden flex flex-col" onClick={e => e.stopPropagation()}>
+        <header className="p-4 border-b border-slate-700 flex justify-between items-center flex-shrink-0">
+          <h3 id="marketplace-export-title" className="text-lg font-semibold text-white">Marketplace Export</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors p-1 rounded-full hover:bg-slate-700" aria-label="Close marketplace export">
+            <CloseIcon className="w-6 h-6" />
+          </button>
+        </header>
+
+        <div className="p-4 border-b border-slate-700 space-y-3 flex-shrink-0">
+          <div className="flex flex-wrap gap-2">
+            {EXPORT_PROFILES.map(profile => (
+              <button
+                key={profile.id}
+                onClick={() => toggleProfile(profile.id)}
+                disabled={progress !== null}
+                className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${selectedProfileIds.includes(profile.id) ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+              >
+                {profile.name}
+                <span className="ml-1.5 text-xs opacity-70">{profile.width}×{profile.height}</span>
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleCheck}
+              disabled={selectedProfiles.length === 0 || progress !== null}
+              className="py-2 px-4 rounded-lg text-sm font-semibold bg-slate-600 text-slate-200 hover:bg-slate-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {progress !== null ? `Processing... ${progress}%` : 'Check Images'}
+            </button>
+            <button
+              onClick={() => results && downloadMarketplaceZip(results, selectedProfiles, productName)}
+              disabled={!results || progress !== null}
+              className="flex items-center gap-2 py-2 px-4 rounded-lg text-sm font-semibold bg-blue-600 text-white hover:bg-blue-500 transition-colors disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed"
+            >
+              <ArchiveIcon className="w-4 h-4" />Download ZIP
+            </button>
+            {results && (
+              <span className={`text-sm ml-2 ${errorCount > 0 ? 'text-red-300' : 'text-green-300'}`}>
+                {errorCount > 0 ? `${errorCount} ${errorCount === 1 ? 'violation' : 'violations'} found; they are listed in report.json.` : 'Every image passes the selected profiles.'}
+              </span>
+            )}
+          </div>
+          {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+
+        <div className="overflow-auto flex-grow">
+          <table className="w-full text-sm text-left">
+            <thead className="text-slate-400 bg-slate-900/40 sticky top-0">
+              <tr>
+                <th className="px-3 py-2 font-medium">Image</th>
+                {selectedProfiles.map(profile => <th key={profile.id} className="px-3 py-2 font-medium">{profile.name}</th>)}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700/60">
+              {images.map((image, index) => (
+                <tr key={image.id}>
+                  <td className="px-3 py-2">
+                    <div className="flex items-center gap-2">
+                      <img src={image.src} alt="" className="w-10 h-10 rounded-md object-cover" />
+                      <span className="text-slate-200">{image.label}</span>
+                      {index === 0 && <span className="text-[11px] px-1.5 py-0.5 rounded bg-slate-700 text-slate-300">Main</span>}
+                    </div>
+                  </td>
+                  {selectedProfiles.map(profile => (
+                    <ResultCell key={profile.id} result={results?.find(r => r.profileId === profile.id && r.image.id === image.id)} />
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="px-4 py-2 text-xs text-slate-500 border-t border-slate-700">The first image in the gallery is exported as the main listing image. Drag images in the gallery to change the order.</p>
+      </div>
+    </div>
+  );
+};
+
+export default MarketplaceExportModal;
@@ -0,0 +1,86 @@
+import React, { useEffect, useId, useState } from 'react';
+import { PRODUCT_CURRENCIES, parseTags } from '../services/productService';
+import type { ProductInfo } from '../types';
+
+interface ProductInfoPanelProps {
+  product: ProductInfo;
+  onProductChange: (product: ProductInfo) => void;
+  disabled?: boolean;
+}
+
+const INPUT_CLASS = 'w-full bg-slate-700 text-white rounded-md border border-slate-600 px-3 py-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const ProductInfoPanel: React.FC<ProductInfoPanelProps> = ({ product, onProductChange, disabled }) => {
+  const id = useId();
+  const update = (patch: Partial<ProductInfo>) => onProductChange({ ...product, ...patch });
+
+  // Tags are edited as free text and parsed on blur, so typing a comma doesn't get swallowed
+  const joinedTags = product.tags.join(', ');
+  const [tagText, setTagText] = useState(joinedTags);
+  useEffect(() => setTagText(joinedTags), [joinedTags]);
+  const commitTags = () => {
+    const tags = parseTags(tagText);
+    setTagText(tags.join(', '));
+    update({ tags });
+  };
+
+  const currencies = PRODUCT_CURRENCIES.includes(product.currency) ? PRODUCT_CURRENCIES : [product.currency, ...PRODUCT_CURRENCIES];
+
+  return (
+    <div className={`space-y-3 ${disabled ? 'opacity-60 pointer-events-none' : ''}`}>
+      <span className="block font-semibold text-slate-300 text-base">Product Details</span>
+
+      <div className="grid grid-cols-[7rem_1fr] gap-2">
+        <div className="space-y-1.5">
+          <label htmlFor={`${id}-sku`} className="block text-xs text-slate-400">SKU</label>
+          <input id={`${id}-sku`} type="text" value={product.sku} onChange={e => update({ sku: e.target.value })} className={INPUT_CLASS} />
+        </div>
+        <div className="space-y-1.5">
+          <label htmlFor={`${id}-name`} className="block text-xs text-slate-400">Product name</label>
+          <input id={`${id}-name`} type="text" value={product.name} onChange={e => update({ name: e.target.value })} className={INPUT_CLASS} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-[1fr_6rem] gap-2">
+        <div className="space-y-1.5">
+          <label htmlFor={`${id}-price`} className="block text-xs text-slate-400">Price</label>
+          <input
+            id={`${id}-price`}
+            type="number"
+            min={0}
+            step={0.01}
+            value={product.price ?? ''}
+            onChange={e => update({ price: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) })}
+            className={INPUT_CLASS}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <label htmlFor={`${id}-currency`} className="block text-xs text-slate-400">Currency</label>
+          <select id={`${id}-currency`} value={product.currency} onChange={e => update({ currency: e.target.value })} className={INPUT_CLASS}>
+            {currencies.map(currency => <option key={currency} value={currency}>{currency}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        <label htmlFor={`${id}-description`} className="block text-xs text-slate-400">Short description</label>
+        <textarea id={`${id}-description`} rows={2} value={product.description} onChange={e => update({ description: e.target.value })} className={`${INPUT_CLASS} resize-none`} />
+      </div>
+
+      <div className="space-y-1.5">
+        <label htmlFor={`${id}-tags`} className="block text-xs text-slate-400">Tags (comma-separated)</label>
+        <input
+          id={`${id}-tags`}
+          type="text"
+          value={tagText}
+          onChange={e => setTagText(e.target.value)}
+          onBlur={commitTags}
+          onKeyDown={e => e.key === 'Enter' && commitTags()}
+          className={INPUT_CLASS}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ProductInfoPanel;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { MAX_AUTO_REGENERATIONS, type QualityCheckSettings } from '../services/qualityCheckService';
+
+interface QualityCheckControlsProps {
+  settings: QualityCheckSettings;
+  onSettingsChange: (settings: QualityCheckSettings) => void;
+  flaggedCount: number;
+}
+
+const QualityCheckControls: React.FC<QualityCheckControlsProps> = ({ settings, onSettingsChange, flaggedCount }) => (
+  <div className="space-y-2">
+    <div className="flex justify-between items-center">
+      <span className="font-semibold text-slate-300 text-base">Identity Check</span>
+      {flaggedCount > 0 && <span className="text-xs px-2 py-0.5 rounded-md bg-red-500/20 text-red-300">{flaggedCount} flagged</span>}
+    </div>
+    <label className="flex items-center justify-between gap-3 text-xs text-slate-400">
+      Threshold
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={settings.threshold}
+        onChange={e => onSettingsChange({ ...settings, threshold: Number(e.target.value) })}
+        className="flex-grow accent-blue-500"
+      />
+      <span className="w-6 text-right text-slate-300">{settings.threshold}</span>
+    </label>
+    <label className="flex items-center gap-2 text-sm text-slate-300">
+      <input
+        type="checkbox"
+        checked={settings.autoRegenerate}
+        onChange={e => onSettingsChange({ ...settings, autoRegenerate: e.target.checked })}
+        className="rounded accent-blue-500"
+      />
+      Auto-regenerate flagged images
+    </label>
+    <p className="text-xs text-slate-500">
+      Each image is compared with the reference (colors, structure, silhouette). Flagged images are regenerated up to {MAX_AUTO_REGENERATIONS} times; earlier attempts stay in the version history.
+    </p>
+  </div>
+);
+
+export default QualityCheckControls;
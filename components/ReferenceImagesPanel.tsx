@@ -0,0 +1,108 @@
+import React, { useRef, ChangeEvent } from 'react';
+import { PlusIcon, TrashIcon } from './icons';
+import { MAX_REFERENCE_IMAGES } from '../services/geminiService';
+import type { ReferenceImage, ReferenceView } from '../types';
+
+interface ReferenceImagesPanelProps {
+  sourceImage: string;
+  references: ReferenceImage[];
+  onReferencesChange: (references: ReferenceImage[]) => void;
+  disabled?: boolean;
+}
+
+const ACCEPTED_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+const VIEW_OPTIONS: { value: ReferenceView; label: string }[] = [
+  { value: 'front', label: 'Front' },
+  { value: 'back', label: 'Back' },
+  { value: 'side', label: 'Side' },
+  { value: 'top', label: 'Top' },
+  { value: 'detail', label: 'Detail' },
+  { value: 'other', label: 'Other' },
+];
+
+const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error(`Failed to read ${file.name}.`));
+    reader.readAsDataURL(file);
+  });
+
+// Guess the view from the file name (e.g. "bottle-back.jpg"); anything else starts as "detail"
+const guessView = (fileName: string): ReferenceView => {
+  const name = fileName.toLowerCase();
+  const match = VIEW_OPTIONS.find(option => option.value !== 'other' && name.includes(option.value));
+  return match ? match.value : 'detail';
+};
+
+const ReferenceImagesPanel: React.FC<ReferenceImagesPanelProps> = ({ sourceImage, references, onReferencesChange, disabled }) => {
+  const addInputRef = useRef<HTMLInputElement>(null);
+
+  const handleAddFiles = async (e: ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    const accepted = files.filter(file => ACCEPTED_TYPES.includes(file.type));
+    if (accepted.length === 0) return;
+    const added = await Promise.all(
+      accepted.map(async (file, index): Promise<ReferenceImage> => ({
+        id: `ref-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}-${index}`,
+        src: await readFileAsDataUrl(file),
+        mimeType: file.type,
+        view: guessView(file.name),
+      }))
+    );
+    onReferencesChange([...references, ...added]);
+  };
+
+  const updateView = (id: string, view: ReferenceView) => {
+    onReferencesChange(references.map(ref => (ref.id === id ? { ...ref, view } : ref)));
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold mb-3 text-slate-200">Reference Images</h3>
+      <div className="aspect-square bg-slate-800 rounded-xl overflow-hidden ring-2 ring-slate-700">
+        <img src={sourceImage} alt="Source Product" className="w-full h-full object-cover" />
+      </div>
+
+      <div className={`mt-3 grid grid-cols-3 gap-2 ${disabled ? 'opacity-60 pointer-events-none' : ''}`}>
+        {references.map(ref => (
+          <div key={ref.id} className="group relative">
+            <div className="aspect-square rounded-lg overflow-hidden bg-slate-800 ring-1 ring-slate-700">
+              <img src={ref.src} alt={`${ref.view} reference`} className="w-full h-full object-cover" />
+            </div>
+            <button
+              onClick={() => onReferencesChange(references.filter(r => r.id !== ref.id))}
+              className="absolute top-1 right-1 p-1 rounded-md bg-black/60 text-white opacity-0 group-hover:opacity-100 hover:bg-red-500/60 transition-opacity"
+              aria-label="Remove reference"
+            >
+              <TrashIcon className="w-3.5 h-3.5" />
+            </button>
+            <select
+              value={ref.view}
+              onChange={(e) => updateView(ref.id, e.target.value as ReferenceView)}
+              className="mt-1 w-full bg-slate-700 text-slate-200 rounded-md border border-slate-600 px-1 py-0.5 text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              aria-label="Reference view"
+            >
+              {VIEW_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+          </div>
+        ))}
+        <button
+          onClick={() => addInputRef.current?.click()}
+          className="aspect-square flex flex-col items-center justify-center gap-1 rounded-lg border-2 border-dashed border-slate-600 text-slate-400 hover:border-blue-500 hover:text-slate-200 transition-colors"
+        >
+          <PlusIcon className="w-5 h-5" />
+          <span className="text-xs">Add view</span>
+        </button>
+        <input ref={addInputRef} type="file" multiple accept="image/png, image/jpeg, image/webp" className="sr-only" onChange={handleAddFiles} />
+      </div>
+      {references.length > MAX_REFERENCE_IMAGES && (
+        <p className="text-xs text-slate-500 mt-2">Each angle is sent the {MAX_REFERENCE_IMAGES} most relevant extra views.</p>
+      )}
+    </div>
+  );
+};
+
+export default ReferenceImagesPanel;
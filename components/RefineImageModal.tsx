@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { CloseIcon, SparklesIcon } from './icons';
+import type { ImageItem } from '../types';
+
+interface RefineImageModalProps {
+  image: ImageItem;
+  onSubmit: (instruction: string) => void;
+  onClose: () => void;
+}
+
+const INSTRUCTION_SUGGESTIONS = [
+  'Make the shadow softer',
+  'Rotate the product a bit more to the left',
+  'Brighter, more even lighting',
+  'Move the camera slightly closer',
+  'Remove reflections on the surface',
+];
+
+const RefineImageModal: React.FC<RefineImageModalProps> = ({ image, onSubmit, onClose }) => {
+  const [instruction, setInstruction] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (instruction.trim()) onSubmit(instruction.trim());
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-2 sm:p-4" onClick={onClose} role="dialog" aria-modal="true" aria-labelledby="refine-image-title">
+      <form onSubmit={handleSubmit} className="bg-slate-800 rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden" onClick={e => e.stopPropagation()}>
+        <header className="p-4 border-b border-slate-700 flex justify-between items-center">
+          <h3 id="refine-image-title" className="text-lg font-semibold text-white">Refine · {image.label}</h3>
+          <button type="button" onClick={onClose} className="text-slate-400 hover:text-white transition-colors p-1 rounded-full hover:bg-slate-700" aria-label="Close refine">
+            <CloseIcon className="w-6 h-6" />
+          </button>
+        </header>
+        <div className="p-4 space-y-3">
+          <div className="flex gap-3">
+            <img src={image.src} alt="" className="w-24 h-24 rounded-lg object-cover flex-shrink-0" />
+            <textarea
+              value={instruction}
+              onChange={e => setInstruction(e.target.value)}
+              placeholder="What should change? e.g. make the shadow softer"
+              rows={4}
+              autoFocus
+              className="flex-grow bg-slate-700 text-white rounded-md border border-slate-600 px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
+            />
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {INSTRUCTION_SUGGESTIONS.map(suggestion => (
+              <button
+                key={suggestion}
+                type="button"
+                onClick={() => setInstruction(suggestion)}
+                className="px-2 py-1 rounded-md text-xs bg-slate-700 text-slate-300 hover:bg-slate-600 transition-colors"
+              >
+                {suggestion}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500">The result becomes a new version of this image; the current one is kept so you can compare and revert.</p>
+        </div>
+        <footer className="p-4 border-t border-slate-700 flex justify-end gap-2">
+          <button type="button" onClick={onClose} className="py-2 px-4 rounded-lg text-sm font-medium bg-slate-700 text-slate-200 hover:bg-slate-600 transition-colors">Cancel</button>
+          <button
+            type="submit"
+            disabled={!instruction.trim()}
+            className="flex items-center gap-2 py-2 px-4 rounded-lg text-sm font-semibold bg-blue-600 text-white hover:bg-blue-500 transition-colors disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed"
+          >
+            <SparklesIcon className="w-4 h-4" />Refine
+          </button>
+        </footer>
+      </form>
+    </div>
+  );
+};
+
+export default RefineImageModal;
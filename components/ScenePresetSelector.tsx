@@ -0,0 +1,55 @@
+import React from 'react';
+import type { ScenePreset } from '../types';
+
+interface ScenePresetSelectorProps {
+  scenes: readonly ScenePreset[];
+  selectedIds: string[];
+  onSelectionChange: (selectedIds: string[]) => void;
+  brandColor: string;
+  angleCount: number;
+  disabled?: boolean;
+}
+
+const ScenePresetSelector: React.FC<ScenePresetSelectorProps> = ({ scenes, selectedIds, onSelectionChange, brandColor, angleCount, disabled }) => {
+  const toggleScene = (id: string) => {
+    // Keep the library order so the matrix always runs scene by scene in the same sequence
+    const next = selectedIds.includes(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id];
+    onSelectionChange(scenes.filter(scene => next.includes(scene.id)).map(scene => scene.id));
+  };
+
+  const sceneCount = scenes.filter(scene => selectedIds.includes(scene.id)).length;
+
+  return (
+    <div className={`space-y-2 ${disabled ? 'opacity-60 pointer-events-none' : ''}`}>
+      <div className="flex justify-between items-center">
+        <span className="font-semibold text-slate-300 text-base">Scenes</span>
+        {sceneCount > 0 && (
+          <span className="text-sm text-slate-400">{angleCount} × {sceneCount} = {angleCount * sceneCount}</span>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-1.5">
+        {scenes.map(scene => {
+          const isSelected = selectedIds.includes(scene.id);
+          return (
+            <button
+              key={scene.id}
+              onClick={() => toggleScene(scene.id)}
+              title={scene.prompt.replace(/\{\{brandColor\}\}/g, brandColor)}
+              className={`flex items-center gap-1.5 px-2 py-1 rounded-md text-xs transition-colors ${isSelected ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+            >
+              {scene.prompt.includes('{{brandColor}}') && (
+                <span className="w-3 h-3 rounded-sm ring-1 ring-white/30" style={{ backgroundColor: brandColor }} />
+              )}
+              {scene.name}
+            </button>
+          );
+        })}
+      </div>
+      <p className="text-xs text-slate-500">
+        {sceneCount === 0 ? 'No scene selected: each angle keeps the background in its own prompt.' : 'Every selected angle is generated once per scene.'}
+      </p>
+    </div>
+  );
+};
+
+export default ScenePresetSelector;
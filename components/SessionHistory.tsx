@@ -0,0 +1,141 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { CopyIcon, ImageIcon, PencilIcon, TrashIcon } from './icons';
+import { deleteSession, duplicateSession, listSessions, renameSession } from '../services/projectStore';
+import type { ProjectSession } from '../types';
+
+interface SessionHistoryProps {
+  currentSessionId: string | null;
+  onOpen: (session: ProjectSession) => void;
+  onRenamed: (id: string, name: string) => void;
+  onDeleted: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const SessionHistory: React.FC<SessionHistoryProps> = ({ currentSessionId, onOpen, onRenamed, onDeleted, onClose }) => {
+  const [sessions, setSessions] = useState<ProjectSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const refresh = useCallback(async () => {
+    try {
+      setSessions(await listSessions());
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load sessions:", err);
+      setError('Could not open the local project store.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      await refresh();
+    } catch (err) {
+      console.error("Session action failed:", err);
+      setError(err instanceof Error ? err.message : 'Session action failed.');
+    }
+  };
+
+  const commitRename = (session: ProjectSession) => {
+    const name = renameValue.trim();
+    setRenamingId(null);
+    if (!name || name === session.name) return;
+    runAction(async () => {
+      await renameSession(session.id, name);
+      onRenamed(session.id, name);
+    });
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold text-white">Session History</h2>
+        <button onClick={onClose} className="bg-slate-700/50 text-slate-300 font-medium py-2 px-4 rounded-lg hover:bg-slate-700 transition-colors">
+          Back
+        </button>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-400">{error}</p>}
+      {isLoading && <p className="text-slate-400">Loading sessions...</p>}
+
+      {!isLoading && sessions.length === 0 && (
+        <div className="w-full min-h-[300px] flex flex-col items-center justify-center bg-slate-800/50 border-2 border-dashed border-slate-700 rounded-xl p-4 text-center">
+          <ImageIcon className="w-16 h-16 text-slate-600 mb-4" />
+          <h4 className="text-lg font-semibold text-slate-300">No Saved Sessions</h4>
+          <p className="text-slate-400 max-w-xs">Every run is saved here automatically once you upload an image.</p>
+        </div>
+      )}
+
+      <ul className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {sessions.map(session => (
+          <li key={session.id} className={`bg-slate-800/60 border rounded-xl overflow-hidden ${session.id === currentSessionId ? 'border-blue-500' : 'border-slate-700'}`}>
+            <button onClick={() => onOpen(session)} className="block w-full aspect-video bg-slate-900" aria-label={`Open ${session.name}`}>
+              <div className="flex h-full">
+                <img src={session.sourceImage} alt="" className="w-1/2 h-full object-cover" />
+                <div className="w-1/2 h-full grid grid-cols-2 grid-rows-2">
+                  {session.images.slice(0, 4).map(image => (
+                    <img key={image.id} src={image.src} alt="" className="w-full h-full object-cover" />
+                  ))}
+                </div>
+              </div>
+            </button>
+            <div className="p-3 space-y-1">
+              {renamingId === session.id ? (
+                <input
+                  autoFocus
+                  value={renameValue}
+                  onChange={(e) => setRenameValue(e.target.value)}
+                  onBlur={() => commitRename(session)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename(session);
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  className="w-full bg-slate-700 text-white rounded-md border border-slate-600 px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              ) : (
+                <p className="text-sm font-medium text-slate-100 truncate">{session.name}</p>
+              )}
+              <p className="text-xs text-slate-400">
+                {session.images.length} images
+                {session.failures.length > 0 && ` · ${session.failures.length} failed`}
+                {session.modelId && ` · ${session.modelId}`}
+              </p>
+              <p className="text-xs text-slate-500">Updated {formatDate(session.updatedAt)}</p>
+              <div className="flex gap-1 pt-1 text-slate-400">
+                <button onClick={() => { setRenamingId(session.id); setRenameValue(session.name); }} className="p-1.5 rounded hover:text-white hover:bg-slate-700 transition-colors" aria-label="Rename session">
+                  <PencilIcon className="w-4 h-4" />
+                </button>
+                <button onClick={() => runAction(() => duplicateSession(session.id))} className="p-1.5 rounded hover:text-white hover:bg-slate-700 transition-colors" aria-label="Duplicate session">
+                  <CopyIcon className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => runAction(async () => {
+                    await deleteSession(session.id);
+                    onDeleted(session.id);
+                  })}
+                  className="p-1.5 rounded hover:text-red-400 hover:bg-slate-700 transition-colors"
+                  aria-label="Delete session"
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SessionHistory;
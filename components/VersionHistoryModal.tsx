@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { CloseIcon } from './icons';
+import { resolveImageSrc } from '../services/imageEditService';
+import { getActiveVersionId, getVersions, VERSION_KIND_LABELS } from '../services/imageVersionService';
+import type { ImageItem, ImageVersion } from '../types';
+
+interface VersionHistoryModalProps {
+  image: ImageItem;
+  referenceSrc: string | null;
+  onPickFinal: (versionId: string) => void;
+  onClose: () => void;
+}
+
+const formatTimestamp = (createdAt: number) => (createdAt > 0 ? new Date(createdAt).toLocaleString() : 'Unknown date');
+
+// Side badge for the A/B pickers in the version list
+const SideButton: React.FC<{ label: string; active: boolean; onClick: () => void }> = ({ label, active, onClick }) => (
+  <button
+    onClick={onClick}
+    className={`w-7 h-7 rounded-md text-xs font-semibold transition-colors ${active ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+    aria-pressed={active}
+  >
+    {label}
+  </button>
+);
+
+const VersionHistoryModal: React.FC<VersionHistoryModalProps> = ({ image, referenceSrc, onPickFinal, onClose }) => {
+  const versions = getVersions(image);
+  const activeId = getActiveVersionId(image);
+  const activeIndex = versions.findIndex(version => version.id === activeId);
+  const [leftId, setLeftId] = useState(() => versions[activeIndex].parentId ?? versions[Math.max(0, activeIndex - 1)].id);
+  const [rightId, setRightId] = useState(activeId);
+  const [split, setSplit] = useState(50);
+  const [previews, setPreviews] = useState<Record<string, string>>({});
+
+  // Versions with an edit stack are shown as edited, like they appear in the album
+  useEffect(() => {
+    let cancelled = false;
+    versions.forEach(version => {
+      resolveImageSrc(version)
+        .then(src => { if (!cancelled) setPreviews(prev => ({ ...prev, [version.id]: src })); })
+        .catch(error => console.error("Failed to render version preview:", error));
+    });
+    return () => { cancelled = true; };
+  }, [image]);
+
+  const previewOf = (version?: ImageVersion) => (version ? previews[version.id] ?? version.src : '');
+  const left = versions.find(version => version.id === leftId);
+  const right = versions.find(version => version.id === rightId);
+  const versionLabel = (version?: ImageVersion) => (version ? `v${versions.indexOf(version) + 1} · ${VERSION_KIND_LABELS[version.kind]}` : '');
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-2 sm:p-4" onClick={onClose} role="dialog" aria-modal="true" aria-labelledby="version-history-title">
+      <div className="bg-slate-800 rounded-2xl shadow-2xl w-full max-w-6xl max-h-[95vh] overflow-hidden flex flex-col" onClick={e => e.stopPropagation()}>
+        <header className="p-4 border-b border-slate-700 flex justify-between items-center flex-shrink-0">
+          <h3 id="version-history-title" className="text-lg font-semibold text-white">Versions · {image.label}</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors p-1 rounded-full hover:bg-slate-700" aria-label="Close version history">
+            <CloseIcon className="w-6 h-6" />
+          </button>
+        </header>
+
+        <div className="flex flex-col lg:flex-row flex-grow min-h-0 overflow-y-auto lg:overflow-hidden">
+          <div className="flex-grow p-4 flex flex-col sm:flex-row gap-4 items-start justify-center">
+            {referenceSrc && (
+              <figure className="w-full sm:w-48 flex-shrink-0">
+                <img src={referenceSrc} alt="Reference" className="w-full aspect-square object-contain bg-slate-900 rounded-lg" />
+                <figcaption className="text-xs text-slate-400 mt-1.5 text-center">Reference</figcaption>
+              </figure>
+            )}
+            <figure className="w-full max-w-xl">
+              <div className="relative aspect-square bg-slate-900 rounded-lg overflow-hidden select-none">
+                <img src={previewOf(left)} alt="Version A" className="absolute inset-0 w-full h-full object-contain" draggable={false} />
+                <img
+                  src={previewOf(right)}
+                  alt="Version B"
+                  className="absolute inset-0 w-full h-full object-contain"
+                  style={{ clipPath: `inset(0 0 0 ${split}%)` }}
+                  draggable={false}
+                />
+                <div className="absolute inset-y-0 w-0.5 bg-white/80 pointer-events-none" style={{ left: `${split}%` }} />
+                <span className="absolute top-2 left-2 px-2 py-0.5 rounded-md bg-black/60 text-xs text-white">A · {versionLabel(left)}</span>
+                <span className="absolute top-2 right-2 px-2 py-0.5 rounded-md bg-black/60 text-xs text-white">B · {versionLabel(right)}</span>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={split}
+                onChange={e => setSplit(Number(e.target.value))}
+                className="w-full mt-3 accent-blue-500"
+                aria-label="Comparison split"
+              />
+            </figure>
+          </div>
+
+          <div className="w-full lg:w-96 border-t lg:border-t-0 lg:border-l border-slate-700 overflow-y-auto">
+            <ul className="divide-y divide-slate-700/60">
+              {[...versions].reverse().map(version => {
+                const isFinal = version.id === activeId;
+                const detail = version.instruction ?? version.prompt;
+                return (
+                  <li key={version.id} className={`p-3 flex gap-3 ${isFinal ? 'bg-blue-500/10' : ''}`}>
+                    <img src={previewOf(version)} alt="" className="w-16 h-16 rounded-md object-cover flex-shrink-0" />
+                    <div className="min-w-0 flex-grow space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium text-slate-200">{versionLabel(version)}</span>
+                        {isFinal && <span className="text-[11px] px-1.5 py-0.5 rounded bg-blue-600 text-white">Final</span>}
+                      </div>
+                      <p className="text-xs text-slate-400">
+                        {formatTimestamp(version.createdAt)}
+                        {version.metadata?.modelId && ` · ${version.metadata.modelId}`}
+                        {version.metadata?.resolution && ` · ${version.metadata.resolution}`}
+                        {version.metadata?.seed !== undefined && ` · seed ${version.metadata.seed}`}
+                        {version.metadata?.candidateCount && ` · candidate ${version.metadata.candidateIndex! + 1}/${version.metadata.candidateCount}`}
+                        {version.edits?.length ? ` · ${version.edits.length} ${version.edits.length === 1 ? 'edit' : 'edits'}` : ''}
+                      </p>
+                      {detail && <p className="text-xs text-slate-500 truncate" title={detail}>{version.instruction ? `“${detail}”` : detail}</p>}
+                      <div className="flex items-center gap-1.5 pt-1">
+                        <SideButton label="A" active={leftId === version.id} onClick={() => setLeftId(version.id)} />
+                        <SideButton label="B" active={rightId === version.id} onClick={() => setRightId(version.id)} />
+                        {!isFinal && (
+                          <button onClick={() => onPickFinal(version.id)} className="ml-auto px-2.5 py-1 rounded-md text-xs font-medium bg-slate-700 text-slate-200 hover:bg-slate-600 transition-colors">
+                            Pick as final
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        </div>
+        <p className="px-4 py-2 text-xs text-slate-500 border-t border-slate-700 flex-shrink-0">The final version is the one used in the gallery, the album and every export.</p>
+      </div>
+    </div>
+  );
+};
+
+export default VersionHistoryModal;
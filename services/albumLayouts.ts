@@ -0,0 +1,206 @@
+import type { AlbumFormatId, AlbumLayoutId } from '../types';
+
+/**
+ * Modelos de layout do álbum. Cada modelo é só uma descrição: regiões em frações da área
+ * útil (entre cabeçalho e rodapé) que o renderizador de createBrandedAlbum interpreta.
+ * Medidas absolutas estão em pixels do lado menor de um álbum de 2048 px e são escaladas
+ * na renderização; as frações acompanham a proporção do formato escolhido.
+ */
+
+export interface LayoutRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type LayoutFlow = 'grid' | 'row' | 'column' | 'list';
+export type LayoutCaption = 'below' | 'overlay' | 'none';
+
+export type LayoutRegion =
+  | {
+      kind: 'images';
+      area: LayoutRect;
+      take: number | 'rest'; // quantas imagens consome, na ordem da galeria
+      flow: LayoutFlow; // 'list' = miniatura + legenda com pontilhado, como num cardápio
+      caption: LayoutCaption;
+      card: boolean; // cartão com sombra atrás de cada imagem
+      maxColumns?: number; // só para 'grid'
+    }
+  | {
+      kind: 'text';
+      area: LayoutRect;
+      content: 'slogan' | 'views'; // slogan em destaque ou lista numerada das vistas
+    };
+
+export interface AlbumLayout {
+  id: AlbumLayoutId;
+  name: string;
+  description: string;
+  minImages: number; // com menos imagens, o álbum usa a grade
+  headerHeight: number;
+  footerHeight: number;
+  padding: number;
+  gap: number;
+  regions: LayoutRegion[];
+  transposeWhenPortrait?: boolean; // em formatos verticais, colunas lado a lado viram blocos empilhados
+}
+
+const FULL: LayoutRect = { x: 0, y: 0, width: 1, height: 1 };
+
+export const ALBUM_LAYOUTS: readonly AlbumLayout[] = [
+  {
+    id: 'grid',
+    name: 'Grid',
+    description: 'Every angle in an even grid.',
+    minImages: 1,
+    headerHeight: 250,
+    footerHeight: 150,
+    padding: 150,
+    gap: 60,
+    regions: [{ kind: 'images', area: FULL, take: 'rest', flow: 'grid', caption: 'below', card: true }],
+  },
+  {
+    id: 'hero',
+    name: 'Hero + thumbnails',
+    description: 'The first image large, the others in a row below it.',
+    minImages: 2,
+    headerHeight: 250,
+    footerHeight: 150,
+    padding: 150,
+    gap: 40,
+    regions: [
+      { kind: 'images', area: { x: 0, y: 0, width: 1, height: 0.68 }, take: 1, flow: 'grid', caption: 'overlay', card: true },
+      { kind: 'images', area: { x: 0, y: 0.72, width: 1, height: 0.28 }, take: 'rest', flow: 'row', caption: 'none', card: true },
+    ],
+  },
+  {
+    id: 'strip',
+    name: 'Horizontal strip',
+    description: 'All angles side by side in a single row.',
+    minImages: 2,
+    headerHeight: 250,
+    footerHeight: 150,
+    padding: 100,
+    gap: 24,
+    regions: [{ kind: 'images', area: { x: 0, y: 0.2, width: 1, height: 0.6 }, take: 'rest', flow: 'row', caption: 'below', card: false }],
+  },
+  {
+    id: 'magazine',
+    name: 'Magazine spread',
+    description: 'A full-height cover image with the slogan and details on the facing page.',
+    minImages: 2,
+    headerHeight: 250,
+    footerHeight: 150,
+    padding: 120,
+    gap: 40,
+    transposeWhenPortrait: true,
+    regions: [
+      { kind: 'images', area: { x: 0, y: 0, width: 0.5, height: 1 }, take: 1, flow: 'grid', caption: 'none', card: false },
+      { kind: 'text', area: { x: 0.55, y: 0, width: 0.45, height: 0.24 }, content: 'slogan' },
+      { kind: 'images', area: { x: 0.55, y: 0.28, width: 0.45, height: 0.72 }, take: 'rest', flow: 'grid', caption: 'below', card: true, maxColumns: 2 },
+    ],
+  },
+  {
+    id: 'lookbook',
+    name: 'Lookbook',
+    description: 'Edge-to-edge photos with captions over the image.',
+    minImages: 2,
+    headerHeight: 220,
+    footerHeight: 120,
+    padding: 60,
+    gap: 12,
+    regions: [{ kind: 'images', area: FULL, take: 'rest', flow: 'grid', caption: 'overlay', card: false }],
+  },
+  {
+    id: 'specSheet',
+    name: 'Spec sheet',
+    description: 'One product: main photo, list of views and detail shots.',
+    minImages: 2,
+    headerHeight: 250,
+    footerHeight: 150,
+    padding: 150,
+    gap: 40,
+    transposeWhenPortrait: true,
+    regions: [
+      { kind: 'images', area: { x: 0, y: 0, width: 0.6, height: 1 }, take: 1, flow: 'grid', caption: 'none', card: true },
+      { kind: 'text', area: { x: 0.64, y: 0, width: 0.36, height: 0.4 }, content: 'views' },
+      { kind: 'images', area: { x: 0.64, y: 0.44, width: 0.36, height: 0.56 }, take: 'rest', flow: 'grid', caption: 'none', card: true, maxColumns: 2 },
+    ],
+  },
+  {
+    id: 'menuCard',
+    name: 'Menu card',
+    description: 'A list of items with a thumbnail and dotted leader, like a menu.',
+    minImages: 1,
+    headerHeight: 300,
+    footerHeight: 150,
+    padding: 180,
+    gap: 30,
+    regions: [{ kind: 'images', area: FULL, take: 'rest', flow: 'list', caption: 'below', card: false }],
+  },
+];
+
+export const DEFAULT_ALBUM_LAYOUT_ID: AlbumLayoutId = 'grid';
+
+// Abaixo desta proporção (largura / altura da área útil) o layout é tratado como vertical
+const PORTRAIT_BODY_ASPECT = 0.8;
+
+/**
+ * Modelo a usar para `imageCount` imagens: o pedido, ou a grade quando faltam imagens para ele.
+ */
+export const getAlbumLayout = (id: AlbumLayoutId | undefined, imageCount: number = Infinity): AlbumLayout => {
+  const grid = ALBUM_LAYOUTS.find(layout => layout.id === DEFAULT_ALBUM_LAYOUT_ID)!;
+  const layout = ALBUM_LAYOUTS.find(candidate => candidate.id === id) ?? grid;
+  return imageCount < layout.minImages ? grid : layout;
+};
+
+/**
+ * Regiões do modelo para uma área útil com a proporção `bodyAspect` (largura / altura).
+ */
+export const resolveLayoutRegions = (layout: AlbumLayout, bodyAspect: number): LayoutRegion[] => {
+  if (!layout.transposeWhenPortrait || bodyAspect >= PORTRAIT_BODY_ASPECT) return layout.regions;
+  return layout.regions.map(region => ({
+    ...region,
+    area: { x: region.area.y, y: region.area.x, width: region.area.height, height: region.area.width },
+  }));
+};
+
+// -------------- Formatos --------------
+
+export interface AlbumFormat {
+  id: AlbumFormatId;
+  name: string;
+  aspect: [number, number]; // largura : altura
+  print?: { widthMm: number; heightMm: number }; // formatos de impressão ganham exportação a 300 dpi
+}
+
+export const ALBUM_FORMATS: readonly AlbumFormat[] = [
+  { id: 'square', name: 'Square (1:1)', aspect: [1, 1] },
+  { id: 'portrait', name: 'Instagram portrait (4:5)', aspect: [4, 5] },
+  { id: 'story', name: 'Stories / Reels (9:16)', aspect: [9, 16] },
+  { id: 'landscape', name: 'Facebook / Twitter banner (16:9)', aspect: [16, 9] },
+  { id: 'pinterest', name: 'Pinterest (2:3)', aspect: [2, 3] },
+  { id: 'a4', name: 'A4 print', aspect: [210, 297], print: { widthMm: 210, heightMm: 297 } },
+  { id: 'letter', name: 'US Letter print', aspect: [8.5, 11], print: { widthMm: 215.9, heightMm: 279.4 } },
+];
+
+export const DEFAULT_ALBUM_FORMAT_ID: AlbumFormatId = 'square';
+export const PRINT_DPI = 300;
+
+export const getAlbumFormat = (id: AlbumFormatId | undefined): AlbumFormat =>
+  ALBUM_FORMATS.find(format => format.id === id) ?? ALBUM_FORMATS.find(format => format.id === DEFAULT_ALBUM_FORMAT_ID)!;
+
+/**
+ * Tamanho do canvas em pixels: `resolution` é o lado menor (1080 → 1080×1350 no 4:5).
+ */
+export const getAlbumCanvasSize = (format: AlbumFormat, resolution: number): { width: number; height: number } => {
+  const [w, h] = format.aspect;
+  return w <= h
+    ? { width: resolution, height: Math.round((resolution * h) / w) }
+    : { width: Math.round((resolution * w) / h), height: resolution };
+};
+
+// Lado menor, em pixels, de uma impressão a PRINT_DPI
+export const getPrintResolution = (format: AlbumFormat): number | null =>
+  format.print ? Math.round((Math.min(format.print.widthMm, format.print.heightMm) / 25.4) * PRINT_DPI) : null;
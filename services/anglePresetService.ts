@@ -0,0 +1,93 @@
+import type { AnglePreset } from '../types';
+
+// #region: Preset Utilities
+
+const THUMBNAIL_SIZE = 96;
+const PRESET_EXPORT_VERSION = 1;
+
+export const createAnglePresetId = (): string =>
+    `angle-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createAnglePreset = (partial: Partial<AnglePreset> = {}): AnglePreset => ({
+    id: createAnglePresetId(),
+    name: 'New Angle',
+    prompt: '',
+    thumbnail: null,
+    ...partial,
+});
+
+export const duplicateAnglePreset = (preset: AnglePreset): AnglePreset => ({
+    ...preset,
+    id: createAnglePresetId(),
+    name: `${preset.name} (copy)`,
+});
+
+/**
+ * Downscales an image to a small JPEG thumbnail so presets stay well under localStorage quotas.
+ */
+export const createThumbnail = (src: string): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = THUMBNAIL_SIZE;
+            canvas.height = THUMBNAIL_SIZE;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) return reject(new Error('Could not get canvas context'));
+            // Center-crop to a square
+            const side = Math.min(img.width, img.height);
+            ctx.drawImage(img, (img.width - side) / 2, (img.height - side) / 2, side, side, 0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+            resolve(canvas.toDataURL('image/jpeg', 0.8));
+        };
+        img.onerror = () => reject(new Error('Failed to load image for thumbnail.'));
+        img.src = src;
+    });
+};
+
+// #endregion
+
+// #region: Import / Export
+
+/**
+ * Downloads the preset library as a JSON file.
+ */
+export const exportAnglePresets = (presets: AnglePreset[]) => {
+    const json = JSON.stringify({ version: PRESET_EXPORT_VERSION, presets }, null, 2);
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `angle_presets_${Date.now()}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Parses an exported preset file (or a bare array of presets). Imported presets whose
+ * ids already exist in the library receive fresh ids so nothing is overwritten.
+ */
+export const parseAnglePresetsImport = (json: string, existing: AnglePreset[]): AnglePreset[] => {
+    const parsed = JSON.parse(json);
+    const items: unknown = Array.isArray(parsed) ? parsed : parsed?.presets;
+    if (!Array.isArray(items)) {
+        throw new Error('Invalid preset file: expected a list of presets.');
+    }
+
+    const usedIds = new Set(existing.map(p => p.id));
+    return items.map((item: any, index: number) => {
+        if (typeof item?.name !== 'string' || typeof item?.prompt !== 'string' || !item.prompt.trim()) {
+            throw new Error(`Invalid preset at position ${index + 1}: "name" and "prompt" are required.`);
+        }
+        const id = typeof item.id === 'string' && !usedIds.has(item.id) ? item.id : createAnglePresetId();
+        usedIds.add(id);
+        return {
+            id,
+            name: item.name,
+            prompt: item.prompt,
+            thumbnail: typeof item.thumbnail === 'string' ? item.thumbnail : null,
+        };
+    });
+};
+
+// #endregion
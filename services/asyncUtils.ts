@@ -0,0 +1,86 @@
+/**
+ * Helpers de cancelamento e pausa compartilhados pelo serviço de geração e pelos providers.
+ */
+
+export const createAbortError = (): DOMException => new DOMException("The operation was aborted.", "AbortError");
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException ? error.name === "AbortError" : (error as any)?.name === "AbortError";
+
+// setTimeout em forma de Promise que rejeita imediatamente se o sinal for abortado
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+export interface PauseGate {
+  pause(): void;
+  resume(): void;
+  isPaused(): boolean;
+  // Resolve imediatamente se não estiver pausado; senão espera o resume (ou o abort)
+  wait(signal?: AbortSignal): Promise<void>;
+}
+
+export const createPauseGate = (): PauseGate => {
+  let paused = false;
+  let waiters: (() => void)[] = [];
+
+  return {
+    pause() {
+      paused = true;
+    },
+    resume() {
+      paused = false;
+      const pending = waiters;
+      waiters = [];
+      pending.forEach(release => release());
+    },
+    isPaused() {
+      return paused;
+    },
+    wait(signal?: AbortSignal) {
+      if (signal?.aborted) return Promise.reject(createAbortError());
+      if (!paused) return Promise.resolve();
+      return new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          waiters = waiters.filter(w => w !== release);
+          reject(createAbortError());
+        };
+        const release = () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        };
+        waiters.push(release);
+        signal?.addEventListener("abort", onAbort, { once: true });
+      });
+    },
+  };
+};
+
+/**
+ * Executa `worker` para cada item com no máximo `limit` execuções simultâneas.
+ * Com o sinal abortado, nenhum item novo é iniciado.
+ */
+export const runWithConcurrency = async <T>(
+  items: readonly T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> => {
+  let next = 0;
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length && !signal?.aborted) {
+      await worker(items[next++]);
+    }
+  });
+  await Promise.all(runners);
+};
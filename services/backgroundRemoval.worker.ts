@@ -0,0 +1,29 @@
+import { computeBackgroundMask, type BackgroundRemovalOptions } from './backgroundRemovalCore';
+
+/**
+ * Web Worker da remoção de fundo: recebe os pixels e devolve a máscara alfa,
+ * transferindo os buffers para evitar cópias.
+ */
+
+interface MaskRequest {
+  id: number;
+  width: number;
+  height: number;
+  pixels: ArrayBuffer;
+  options: BackgroundRemovalOptions;
+}
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<MaskRequest>) => void) | null;
+  postMessage: (message: unknown, transfer?: Transferable[]) => void;
+};
+
+scope.onmessage = (event) => {
+  const { id, width, height, pixels, options } = event.data;
+  try {
+    const mask = computeBackgroundMask(new Uint8ClampedArray(pixels), width, height, options);
+    scope.postMessage({ id, mask: mask.buffer }, [mask.buffer]);
+  } catch (error) {
+    scope.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,113 @@
+/**
+ * Algoritmo de remoção de fundo compartilhado pelo Web Worker e pelo fallback na thread principal.
+ * Não usa DOM: recebe os pixels RGBA e devolve a máscara de opacidade.
+ */
+
+export interface BackgroundRemovalOptions {
+  tolerance: number; // 0..255, distância máxima (média por canal) até a cor do fundo
+  feather: number; // px de transição suave entre produto e fundo
+}
+
+export const DEFAULT_BACKGROUND_REMOVAL_OPTIONS: BackgroundRemovalOptions = {
+  tolerance: 24,
+  feather: 2,
+};
+
+// Cor do fundo: mediana por canal dos pixels da borda (resiste a sombras que tocam a borda)
+const estimateBackgroundColor = (data: Uint8ClampedArray, width: number, height: number): [number, number, number] => {
+  const channels: number[][] = [[], [], []];
+  const push = (offset: number) => {
+    channels[0].push(data[offset]);
+    channels[1].push(data[offset + 1]);
+    channels[2].push(data[offset + 2]);
+  };
+  for (let x = 0; x < width; x++) {
+    push(x * 4);
+    push(((height - 1) * width + x) * 4);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    push(y * width * 4);
+    push((y * width + width - 1) * 4);
+  }
+  const median = (values: number[]) => values.sort((a, b) => a - b)[Math.floor(values.length / 2)];
+  return [median(channels[0]), median(channels[1]), median(channels[2])];
+};
+
+/**
+ * Preenche o fundo a partir das bordas (flood fill com tolerância) e devolve uma máscara
+ * alfa 0..255, com `feather` px de degradê no contorno do produto.
+ */
+export const computeBackgroundMask = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: BackgroundRemovalOptions = DEFAULT_BACKGROUND_REMOVAL_OPTIONS
+): Uint8ClampedArray => {
+  const pixelCount = width * height;
+  const [br, bg, bb] = estimateBackgroundColor(data, width, height);
+  const maxDistance = options.tolerance * 3;
+  const isBackgroundColor = (index: number) => {
+    const offset = index * 4;
+    return Math.abs(data[offset] - br) + Math.abs(data[offset + 1] - bg) + Math.abs(data[offset + 2] - bb) <= maxDistance;
+  };
+
+  // 1 = fundo alcançado a partir da borda
+  const background = new Uint8Array(pixelCount);
+  const queue = new Int32Array(pixelCount);
+  let head = 0, tail = 0;
+  const visit = (index: number) => {
+    if (background[index] || !isBackgroundColor(index)) return;
+    background[index] = 1;
+    queue[tail++] = index;
+  };
+
+  for (let x = 0; x < width; x++) {
+    visit(x);
+    visit((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    visit(y * width);
+    visit(y * width + width - 1);
+  }
+  while (head < tail) {
+    const index = queue[head++];
+    const x = index % width;
+    if (x > 0) visit(index - 1);
+    if (x < width - 1) visit(index + 1);
+    if (index >= width) visit(index - width);
+    if (index < pixelCount - width) visit(index + width);
+  }
+
+  const mask = new Uint8ClampedArray(pixelCount);
+  for (let i = 0; i < pixelCount; i++) mask[i] = background[i] ? 0 : 255;
+  if (options.feather <= 0) return mask;
+
+  // Distância (em passos de 4-vizinhança) do produto até o fundo, limitada ao raio do feather
+  const distance = new Uint16Array(pixelCount).fill(0xffff);
+  head = 0;
+  tail = 0;
+  for (let i = 0; i < pixelCount; i++) {
+    if (background[i]) {
+      distance[i] = 0;
+      queue[tail++] = i;
+    }
+  }
+  while (head < tail) {
+    const index = queue[head++];
+    const next = distance[index] + 1;
+    if (next > options.feather) continue;
+    const x = index % width;
+    const neighbors = [x > 0 ? index - 1 : -1, x < width - 1 ? index + 1 : -1, index - width, index + width];
+    for (const neighbor of neighbors) {
+      if (neighbor < 0 || neighbor >= pixelCount || distance[neighbor] <= next) continue;
+      distance[neighbor] = next;
+      queue[tail++] = neighbor;
+    }
+  }
+  for (let i = 0; i < pixelCount; i++) {
+    if (!background[i] && distance[i] <= options.feather) {
+      mask[i] = Math.round((255 * distance[i]) / (options.feather + 1));
+    }
+  }
+  return mask;
+};
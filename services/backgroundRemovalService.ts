@@ -0,0 +1,85 @@
+import { computeBackgroundMask, type BackgroundRemovalOptions } from './backgroundRemovalCore';
+
+/**
+ * Remoção de fundo no cliente: o cálculo da máscara roda num Web Worker (com fallback
+ * na thread principal quando workers não estão disponíveis) e o resultado é um PNG transparente.
+ */
+
+export { DEFAULT_BACKGROUND_REMOVAL_OPTIONS, type BackgroundRemovalOptions } from './backgroundRemovalCore';
+
+type PendingRequest = { resolve: (mask: Uint8ClampedArray) => void; reject: (error: Error) => void };
+
+let worker: Worker | null = null;
+let workerUnavailable = false;
+let nextRequestId = 1;
+const pending = new Map<number, PendingRequest>();
+
+// Um único worker, criado sob demanda e compartilhado por todos os pedidos
+const getWorker = (): Worker | null => {
+  if (worker || workerUnavailable) return worker;
+  try {
+    worker = new Worker(new URL('./backgroundRemoval.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<{ id: number; mask?: ArrayBuffer; error?: string }>) => {
+      const request = pending.get(event.data.id);
+      if (!request) return;
+      pending.delete(event.data.id);
+      if (event.data.mask) request.resolve(new Uint8ClampedArray(event.data.mask));
+      else request.reject(new Error(event.data.error ?? 'Background removal failed.'));
+    };
+    worker.onerror = (event) => {
+      console.error("Background removal worker failed:", event);
+      pending.forEach(request => request.reject(new Error('Background removal worker failed.')));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+      workerUnavailable = true;
+    };
+  } catch (error) {
+    console.warn("Web Workers unavailable, removing backgrounds on the main thread.", error);
+    workerUnavailable = true;
+  }
+  return worker;
+};
+
+const computeMask = (imageData: ImageData, options: BackgroundRemovalOptions): Promise<Uint8ClampedArray> => {
+  const activeWorker = getWorker();
+  if (!activeWorker) {
+    return Promise.resolve(computeBackgroundMask(imageData.data, imageData.width, imageData.height, options));
+  }
+  const id = nextRequestId++;
+  // A cópia dos pixels é transferida; o ImageData original continua válido para aplicar a máscara
+  const pixels = imageData.data.slice().buffer;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    activeWorker.postMessage({ id, width: imageData.width, height: imageData.height, pixels, options }, [pixels]);
+  });
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not decode the image.'));
+    img.src = src;
+  });
+
+/**
+ * Remove um fundo uniforme ou quase uniforme e devolve o recorte como data URL PNG.
+ */
+export const removeBackground = async (src: string, options: BackgroundRemovalOptions): Promise<string> => {
+  const img = await loadImage(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.drawImage(img, 0, 0);
+
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const mask = await computeMask(imageData, options);
+  for (let i = 0; i < mask.length; i++) {
+    imageData.data[i * 4 + 3] = Math.min(imageData.data[i * 4 + 3], mask[i]);
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,95 @@
+import type { AnglePreset, BatchJob, GenerationSettings, ImageGenerationProvider, RetryEvent } from '../types';
+import { generateImageVariations } from './geminiService';
+
+/**
+ * Fila de produtos do modo em lote. Cada job reaproveita generateImageVariations
+ * com o seu próprio conjunto de ângulos.
+ */
+
+const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error(`Failed to read ${file.name}.`));
+    reader.readAsDataURL(file);
+  });
+
+export const createBatchJobs = async (files: File[], angleIds: string[]): Promise<BatchJob[]> =>
+  Promise.all(
+    files.map(async (file, index) => ({
+      id: `job-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}-${index}`,
+      name: file.name.replace(/\.[^.]+$/, ""),
+      sourceImage: await readFileAsDataUrl(file),
+      sourceMimeType: file.type,
+      angleIds: [...angleIds],
+      images: [],
+      failures: [],
+      status: "queued" as const,
+    }))
+  );
+
+/**
+ * Processa um job e reporta cada mudança de estado via `onUpdate`. Se o sinal for
+ * abortado no meio, o job volta para a fila ("queued") para poder ser retomado.
+ */
+export const runBatchJob = async (
+  job: BatchJob,
+  angles: AnglePreset[],
+  options: {
+    provider: ImageGenerationProvider;
+    signal?: AbortSignal;
+    onUpdate: (jobId: string, update: (job: BatchJob) => BatchJob) => void;
+    onRetry?: (jobId: string, event: RetryEvent) => void;
+    settings?: GenerationSettings; // modelo, lote, seed e resolução; candidatos por ângulo não se aplicam aqui
+  }
+): Promise<void> => {
+  const { provider, signal, onUpdate, onRetry, settings } = options;
+  const update = (fn: (job: BatchJob) => BatchJob) => onUpdate(job.id, fn);
+
+  if (angles.length === 0) {
+    update(j => ({ ...j, status: "failed", error: "No angles selected for this product." }));
+    return;
+  }
+
+  update(j => ({ ...j, status: "running", images: [], failures: [], error: undefined }));
+  let imageCount = 0;
+
+  try {
+    await generateImageVariations(
+      job.sourceImage,
+      job.sourceMimeType,
+      angles.length,
+      (result) => {
+        const newImages = result.successes.map(success => ({
+          id: `${job.id}-img-${++imageCount}`,
+          src: success.src,
+          label: success.angle.name,
+          angle: success.angle,
+          metadata: success.metadata,
+        }));
+        update(j => ({ ...j, images: [...j.images, ...newImages], failures: [...j.failures, ...result.failures] }));
+      },
+      {
+        provider,
+        angles,
+        signal,
+        modelId: settings?.modelId,
+        batchSize: settings?.concurrency,
+        seed: settings?.seed,
+        resolution: settings?.resolution,
+        onRetry: onRetry && (event => onRetry(job.id, event)),
+      }
+    );
+
+    if (signal?.aborted) {
+      update(j => ({ ...j, status: "queued" }));
+    } else if (imageCount === 0) {
+      update(j => ({ ...j, status: "failed", error: "Every angle failed for this product." }));
+    } else {
+      update(j => ({ ...j, status: "done" }));
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "An unknown error occurred.";
+    update(j => ({ ...j, status: "failed", error: message }));
+  }
+};
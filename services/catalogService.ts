@@ -0,0 +1,313 @@
+import type { AlbumFormatId, AlbumOptions, ImageItem, ProductInfo } from '../types';
+import { getAlbumFormat, PRINT_DPI } from './albumLayouts';
+import { resolveImageSrc } from './imageEditService';
+import { buildPdf, type PdfPage } from './pdfWriter';
+import { formatPrice } from './productService';
+
+/**
+ * Catálogo em PDF para impressão: capa, páginas por produto (ou por ângulo), legendas,
+ * numeração e, opcionalmente, SKU e preço. As páginas são desenhadas em canvas a 300 dpi
+ * com a mesma identidade visual do álbum e embutidas como JPEG.
+ */
+
+export type CatalogPageFormatId = Extract<AlbumFormatId, 'a4' | 'letter'>;
+export type CatalogPageMode = 'product' | 'angle';
+
+export interface CatalogOptions {
+  pageFormatId: CatalogPageFormatId;
+  pageMode: CatalogPageMode; // uma página por produto ou uma por ângulo
+  includeCover: boolean;
+  showSku: boolean;
+  showPrice: boolean;
+}
+
+export interface CatalogProduct {
+  name: string;
+  images: ImageItem[];
+  sku?: string;
+  price?: string; // já formatado, ex.: "R$ 49,90"
+}
+
+// Produto do catálogo a partir dos dados do produto; sem nome, usa `fallbackName`
+export const toCatalogProduct = (product: ProductInfo | undefined, fallbackName: string, images: ImageItem[]): CatalogProduct => ({
+  name: product?.name.trim() || fallbackName,
+  images,
+  sku: product?.sku.trim() || undefined,
+  price: formatPrice(product) ?? undefined,
+});
+
+export const DEFAULT_CATALOG_OPTIONS: CatalogOptions = {
+  pageFormatId: 'a4',
+  pageMode: 'product',
+  includeCover: true,
+  showSku: true,
+  showPrice: true,
+};
+
+const THUMBNAILS_PER_PAGE = 6; // miniaturas abaixo da imagem principal; o excedente continua na página seguinte
+const THUMBNAIL_COLUMNS = 3;
+const JPEG_QUALITY = 0.9;
+
+// Medidas em milímetros, convertidas para pixels na resolução de impressão
+const MM = PRINT_DPI / 25.4;
+const MARGIN = 15;
+const FOOTER = 14;
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+type PageContent =
+  | { kind: 'cover' }
+  | { kind: 'product'; product: CatalogProduct; hero?: ImageItem; thumbnails: ImageItem[]; continued: boolean }
+  | { kind: 'angle'; product: CatalogProduct; image: ImageItem };
+
+// #region: Desenho
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not decode the image.'));
+    img.src = src;
+  });
+
+const roundRectPath = (ctx: CanvasRenderingContext2D, box: Box, radius: number) => {
+  ctx.beginPath();
+  ctx.moveTo(box.x + radius, box.y);
+  ctx.arcTo(box.x + box.width, box.y, box.x + box.width, box.y + box.height, radius);
+  ctx.arcTo(box.x + box.width, box.y + box.height, box.x, box.y + box.height, radius);
+  ctx.arcTo(box.x, box.y + box.height, box.x, box.y, radius);
+  ctx.arcTo(box.x, box.y, box.x + box.width, box.y, radius);
+  ctx.closePath();
+};
+
+const drawContained = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, box: Box) => {
+  const scale = Math.min(box.width / img.width, box.height / img.height);
+  const width = img.width * scale;
+  const height = img.height * scale;
+  ctx.drawImage(img, box.x + (box.width - width) / 2, box.y + (box.height - height) / 2, width, height);
+};
+
+// Imagem sobre um cartão arredondado, com respiro interno
+const drawImageCard = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, box: Box, cardColor: string) => {
+  ctx.fillStyle = cardColor;
+  roundRectPath(ctx, box, 3 * MM);
+  ctx.fill();
+  const inset = 4 * MM;
+  drawContained(ctx, img, { x: box.x + inset, y: box.y + inset, width: box.width - inset * 2, height: box.height - inset * 2 });
+};
+
+const fitText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string => {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 1 && ctx.measureText(`${fitted}…`).width > maxWidth) fitted = fitted.slice(0, -1);
+  return `${fitted.trimEnd()}…`;
+};
+
+const canvasToJpeg = (canvas: HTMLCanvasElement): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) return reject(new Error('Could not encode the catalog page.'));
+      blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+    }, 'image/jpeg', JPEG_QUALITY);
+  });
+
+// #endregion
+
+/**
+ * Divide os produtos em páginas, na ordem em que serão impressas.
+ */
+const paginate = (products: readonly CatalogProduct[], options: CatalogOptions): PageContent[] => {
+  const pages: PageContent[] = options.includeCover ? [{ kind: 'cover' }] : [];
+  for (const product of products) {
+    if (options.pageMode === 'angle') {
+      product.images.forEach(image => pages.push({ kind: 'angle', product, image }));
+      continue;
+    }
+    const [hero, ...rest] = product.images;
+    pages.push({ kind: 'product', product, hero, thumbnails: rest.slice(0, THUMBNAILS_PER_PAGE), continued: false });
+    for (let i = THUMBNAILS_PER_PAGE; i < rest.length; i += THUMBNAILS_PER_PAGE * 2) {
+      // Páginas de continuação não têm imagem principal: cabem duas fileiras a mais
+      pages.push({ kind: 'product', product, thumbnails: rest.slice(i, i + THUMBNAILS_PER_PAGE * 2), continued: true });
+    }
+  }
+  return pages;
+};
+
+/**
+ * Gera o catálogo e devolve o PDF pronto para download.
+ */
+export const createCatalogPdf = async (
+  products: readonly CatalogProduct[],
+  albumOptions: AlbumOptions,
+  options: CatalogOptions = DEFAULT_CATALOG_OPTIONS,
+  onProgress?: (progress: number) => void
+): Promise<Blob> => {
+  const { brandInfo, palette, typography } = albumOptions;
+  const format = getAlbumFormat(options.pageFormatId);
+  const { widthMm, heightMm } = format.print!;
+  const pageWidth = Math.round(widthMm * MM);
+  const pageHeight = Math.round(heightMm * MM);
+  const contentWidth = pageWidth - MARGIN * 2 * MM;
+
+  onProgress?.(0);
+  const logo = brandInfo.logoSrc ? await loadImage(brandInfo.logoSrc) : null;
+  // Cada imagem é decodificada uma vez só, na versão editada quando houver pilha de edições
+  const decoded = new Map<ImageItem, Promise<HTMLImageElement>>();
+  const imageOf = (image: ImageItem) => {
+    if (!decoded.has(image)) decoded.set(image, resolveImageSrc(image).then(loadImage));
+    return decoded.get(image)!;
+  };
+
+  const contents = paginate(products, options);
+  const canvas = document.createElement('canvas');
+  canvas.width = pageWidth;
+  canvas.height = pageHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  const font = (weight: string, sizeMm: number, family: string) => `${weight} ${sizeMm * MM}px ${family}`;
+
+  const drawProductHeading = (product: CatalogProduct, suffix = '') => {
+    const top = MARGIN * MM;
+    ctx.textAlign = 'left';
+    ctx.fillStyle = palette.textPrimary;
+    ctx.font = font('bold', 9, typography.titleFont);
+    const sku = options.showSku && product.sku ? `SKU ${product.sku}` : '';
+    const price = options.showPrice && product.price ? product.price : '';
+    ctx.fillText(fitText(ctx, `${product.name}${suffix}`, contentWidth * 0.7), MARGIN * MM, top + 9 * MM);
+
+    ctx.textAlign = 'right';
+    if (price) {
+      ctx.fillStyle = palette.primary;
+      ctx.font = font('bold', 8, typography.titleFont);
+      ctx.fillText(price, pageWidth - MARGIN * MM, top + 9 * MM);
+    }
+    if (sku) {
+      ctx.fillStyle = palette.textSecondary;
+      ctx.font = font('normal', 4, typography.bodyFont);
+      ctx.fillText(sku, pageWidth - MARGIN * MM, top + 15 * MM);
+    }
+    ctx.fillStyle = palette.primary;
+    ctx.fillRect(MARGIN * MM, top + 19 * MM, 20 * MM, 1.2 * MM);
+    return top + 26 * MM;
+  };
+
+  const drawCaption = (text: string, centerX: number, y: number, maxWidth: number, sizeMm = 4) => {
+    ctx.textAlign = 'center';
+    ctx.fillStyle = palette.textPrimary;
+    ctx.font = font('500', sizeMm, typography.bodyFont);
+    ctx.fillText(fitText(ctx, text, maxWidth), centerX, y);
+  };
+
+  const drawFooter = (pageNumber: number) => {
+    const baseline = pageHeight - (MARGIN * MM) + 2 * MM;
+    ctx.fillStyle = '#E2E8F0'; // slate-200
+    ctx.fillRect(MARGIN * MM, pageHeight - (MARGIN + FOOTER - 4) * MM, contentWidth, 0.3 * MM);
+    ctx.fillStyle = palette.textSecondary;
+    ctx.font = font('italic', 3.2, typography.bodyFont);
+    ctx.textAlign = 'left';
+    ctx.fillText(fitText(ctx, brandInfo.footerText, contentWidth * 0.75), MARGIN * MM, baseline);
+    ctx.textAlign = 'right';
+    ctx.fillText(`${pageNumber} / ${contents.length}`, pageWidth - MARGIN * MM, baseline);
+  };
+
+  const drawThumbnails = async (thumbnails: ImageItem[], top: number, bottom: number) => {
+    if (thumbnails.length === 0) return;
+    const gap = 5 * MM;
+    const captionHeight = 8 * MM;
+    const rows = Math.ceil(thumbnails.length / THUMBNAIL_COLUMNS);
+    const cellWidth = (contentWidth - gap * (THUMBNAIL_COLUMNS - 1)) / THUMBNAIL_COLUMNS;
+    const cellHeight = Math.min(cellWidth + captionHeight, (bottom - top - gap * (rows - 1)) / rows);
+    for (const [i, image] of thumbnails.entries()) {
+      const x = MARGIN * MM + (i % THUMBNAIL_COLUMNS) * (cellWidth + gap);
+      const y = top + Math.floor(i / THUMBNAIL_COLUMNS) * (cellHeight + gap);
+      drawImageCard(ctx, await imageOf(image), { x, y, width: cellWidth, height: cellHeight - captionHeight }, palette.card);
+      drawCaption(image.label, x + cellWidth / 2, y + cellHeight - 2 * MM, cellWidth);
+    }
+  };
+
+  const pages: PdfPage[] = [];
+  for (const [index, content] of contents.entries()) {
+    ctx.fillStyle = palette.background;
+    ctx.fillRect(0, 0, pageWidth, pageHeight);
+    const bottom = pageHeight - (MARGIN + FOOTER) * MM;
+
+    if (content.kind === 'cover') {
+      ctx.fillStyle = palette.primary;
+      ctx.fillRect(0, 0, pageWidth, 8 * MM);
+      let y = 40 * MM;
+      if (logo) {
+        drawContained(ctx, logo, { x: (pageWidth - 40 * MM) / 2, y: y - 10 * MM, width: 40 * MM, height: 30 * MM });
+        y += 35 * MM;
+      }
+      ctx.textAlign = 'center';
+      ctx.fillStyle = palette.textPrimary;
+      ctx.font = font('bold', 16, typography.titleFont);
+      ctx.fillText(fitText(ctx, brandInfo.name, contentWidth), pageWidth / 2, y + 10 * MM);
+      if (brandInfo.slogan) {
+        ctx.fillStyle = palette.textSecondary;
+        ctx.font = font('normal', 7, typography.bodyFont);
+        ctx.fillText(fitText(ctx, brandInfo.slogan, contentWidth), pageWidth / 2, y + 22 * MM);
+      }
+      const coverImage = products.find(product => product.images.length > 0)?.images[0];
+      if (coverImage) {
+        drawContained(ctx, await imageOf(coverImage), { x: MARGIN * MM * 2, y: y + 34 * MM, width: pageWidth - MARGIN * MM * 4, height: pageHeight - y - 34 * MM - 45 * MM });
+      }
+      ctx.fillStyle = palette.textSecondary;
+      ctx.font = font('normal', 4, typography.bodyFont);
+      ctx.textAlign = 'center';
+      const productCount = `${products.length} ${products.length === 1 ? 'product' : 'products'}`;
+      ctx.fillText(`${productCount} · ${new Date().toLocaleDateString()}`, pageWidth / 2, pageHeight - 25 * MM);
+    } else if (content.kind === 'angle') {
+      const top = drawProductHeading(content.product);
+      const captionHeight = 14 * MM;
+      drawImageCard(ctx, await imageOf(content.image), { x: MARGIN * MM, y: top, width: contentWidth, height: bottom - top - captionHeight }, palette.card);
+      drawCaption(content.image.label, pageWidth / 2, bottom - 4 * MM, contentWidth, 6);
+      drawFooter(index + 1);
+    } else {
+      const top = drawProductHeading(content.product, content.continued ? ' (cont.)' : '');
+      let thumbnailsTop = top;
+      if (content.hero) {
+        const heroHeight = (bottom - top) * (content.thumbnails.length > 0 ? 0.55 : 1) - 10 * MM;
+        drawImageCard(ctx, await imageOf(content.hero), { x: MARGIN * MM, y: top, width: contentWidth, height: heroHeight }, palette.card);
+        drawCaption(content.hero.label, pageWidth / 2, top + heroHeight + 7 * MM, contentWidth, 5);
+        thumbnailsTop = top + heroHeight + 14 * MM;
+      }
+      await drawThumbnails(content.thumbnails, thumbnailsTop, bottom);
+      drawFooter(index + 1);
+    }
+
+    pages.push({
+      widthPt: (widthMm / 25.4) * 72,
+      heightPt: (heightMm / 25.4) * 72,
+      jpeg: await canvasToJpeg(canvas),
+      pixelWidth: pageWidth,
+      pixelHeight: pageHeight,
+    });
+    onProgress?.((100 * (index + 1)) / contents.length);
+  }
+
+  return buildPdf(pages, { title: `${brandInfo.name} catalog`, author: brandInfo.name });
+};
+
+export const downloadCatalogPdf = async (
+  products: readonly CatalogProduct[],
+  albumOptions: AlbumOptions,
+  options?: CatalogOptions,
+  onProgress?: (progress: number) => void
+) => {
+  const url = URL.createObjectURL(await createCatalogPdf(products, albumOptions, options, onProgress));
+  const link = document.createElement('a');
+  link.href = url;
+  const safeName = albumOptions.brandInfo.name.replace(/\s/g, '_') || 'product';
+  link.download = `catalog_${safeName}_${Date.now()}.pdf`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
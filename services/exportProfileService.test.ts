@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { readImageDimensions } from './exportProfileService';
+
+const bytes = (...parts: (number[] | string)[]) =>
+  new Uint8Array(parts.flatMap(part => (typeof part === 'string' ? [...part].map(char => char.charCodeAt(0)) : part)));
+
+const u16be = (value: number) => [value >> 8, value & 0xff];
+const u16le = (value: number) => [value & 0xff, value >> 8];
+const u32be = (value: number) => [value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+
+describe('readImageDimensions', () => {
+  it('reads the PNG IHDR chunk', () => {
+    const png = bytes([0x89], 'PNG\r\n\x1a\n', u32be(13), 'IHDR', u32be(1200), u32be(900), [8, 6, 0, 0, 0]);
+    expect(readImageDimensions(png)).toEqual({ width: 1200, height: 900 });
+  });
+
+  it('skips JPEG segments until the frame header', () => {
+    const app0 = [0xff, 0xe0, ...u16be(16), ...'JFIF\0'.split('').map(c => c.charCodeAt(0)), 1, 1, 0, 0, 1, 0, 1, 0, 0];
+    const dqt = [0xff, 0xdb, ...u16be(4), 0, 0];
+    const sof2 = [0xff, 0xc2, ...u16be(17), 8, ...u16be(1500), ...u16be(2000), 3];
+    const jpeg = bytes([0xff, 0xd8], app0, dqt, sof2);
+    expect(readImageDimensions(jpeg)).toEqual({ width: 2000, height: 1500 });
+  });
+
+  it('ignores a DHT segment in the SOF marker range', () => {
+    const dht = [0xff, 0xc4, ...u16be(4), 0, 0];
+    const sof0 = [0xff, 0xc0, ...u16be(17), 8, ...u16be(10), ...u16be(20), 3];
+    expect(readImageDimensions(bytes([0xff, 0xd8], dht, sof0))).toEqual({ width: 20, height: 10 });
+  });
+
+  it('reads lossy, lossless and extended WebP headers', () => {
+    const riff = (chunk: string, payload: number[]) => bytes('RIFF', [0, 0, 0, 0], 'WEBP', chunk, [0, 0, 0, 0], payload);
+    const lossy = riff('VP8 ', [0, 0, 0, 0x9d, 0x01, 0x2a, ...u16le(1000), ...u16le(800), 0, 0]);
+    expect(readImageDimensions(lossy)).toEqual({ width: 1000, height: 800 });
+
+    const bits = (1000 - 1) | ((800 - 1) << 14);
+    const lossless = riff('VP8L', [0x2f, bits & 0xff, (bits >> 8) & 0xff, (bits >> 16) & 0xff, (bits >>> 24) & 0xff, 0, 0, 0, 0]);
+    expect(readImageDimensions(lossless)).toEqual({ width: 1000, height: 800 });
+
+    const extended = riff('VP8X', [0, 0, 0, 0, 999 & 0xff, 999 >> 8, 0, 799 & 0xff, 799 >> 8, 0]);
+    expect(readImageDimensions(extended)).toEqual({ width: 1000, height: 800 });
+  });
+
+  it('returns null for unknown or truncated files', () => {
+    expect(readImageDimensions(bytes('GIF89a'))).toBeNull();
+    expect(readImageDimensions(bytes([0xff, 0xd8, 0xff, 0xe0, 0, 16]))).toBeNull();
+    expect(readImageDimensions(new Uint8Array())).toBeNull();
+  });
+});
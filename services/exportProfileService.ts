@@ -0,0 +1,390 @@
+import type { ImageItem } from '../types';
+import { resolveImageSrc } from './imageEditService';
+
+/**
+ * Perfis de exportação para marketplaces. Cada imagem gerada é reprocessada para as
+ * regras do perfil (dimensões exatas, fundo #FFFFFF, ocupação do produto, formato,
+ * qualidade e tamanho máximo) e as violações restantes são reportadas antes do download.
+ *
+ * Os valores abaixo são referências; confira as regras atuais de cada marketplace.
+ */
+
+export type ExportFormat = "image/jpeg" | "image/webp" | "image/png";
+
+export interface ExportProfile {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  format: ExportFormat;
+  quality: number; // 0..1, qualidade inicial (reduzida até MIN_QUALITY para caber no limite)
+  maxFileSizeBytes: number;
+  whiteBackground: "none" | "main" | "all"; // "main": só a primeira imagem precisa de fundo branco puro
+  targetFillRatio?: number; // reenquadra o produto para ocupar esta fração do lado maior
+  minFillRatio?: number;
+  fileName: (baseName: string, index: number, extension: string) => string;
+}
+
+export type ExportCheckId = "dimensions" | "background" | "fill" | "fileSize" | "resolution";
+
+export interface ExportCheck {
+  id: ExportCheckId;
+  passed: boolean;
+  severity: "error" | "warning";
+  message: string;
+}
+
+export interface ProcessedExport {
+  image: ImageItem;
+  profileId: string;
+  fileName: string;
+  blob: Blob;
+  width: number;
+  height: number;
+  fillRatio: number | null;
+  checks: ExportCheck[];
+}
+
+const MB = 1024 * 1024;
+
+export const EXPORT_PROFILES: readonly ExportProfile[] = [
+  {
+    id: "amazon",
+    name: "Amazon",
+    width: 2000,
+    height: 2000,
+    format: "image/jpeg",
+    quality: 0.9,
+    maxFileSizeBytes: 10 * MB,
+    whiteBackground: "main",
+    targetFillRatio: 0.87,
+    minFillRatio: 0.85,
+    fileName: (base, index, ext) => (index === 0 ? `${base}.MAIN.${ext}` : `${base}.PT${String(index).padStart(2, "0")}.${ext}`),
+  },
+  {
+    id: "shopify",
+    name: "Shopify",
+    width: 2048,
+    height: 2048,
+    format: "image/jpeg",
+    quality: 0.85,
+    maxFileSizeBytes: 20 * MB,
+    whiteBackground: "none",
+    fileName: (base, index, ext) => `${base}-${index + 1}.${ext}`,
+  },
+  {
+    id: "mercado-livre",
+    name: "Mercado Livre",
+    width: 1200,
+    height: 1200,
+    format: "image/jpeg",
+    quality: 0.9,
+    maxFileSizeBytes: 10 * MB,
+    whiteBackground: "main",
+    targetFillRatio: 0.9,
+    minFillRatio: 0.7,
+    fileName: (base, index, ext) => `${base}_${index + 1}.${ext}`,
+  },
+  {
+    id: "ifood",
+    name: "iFood",
+    width: 1200,
+    height: 1200,
+    format: "image/jpeg",
+    quality: 0.85,
+    maxFileSizeBytes: 2 * MB,
+    whiteBackground: "none",
+    minFillRatio: 0.5,
+    fileName: (base, index, ext) => `${base}-${index + 1}.${ext}`,
+  },
+];
+
+const MIN_QUALITY = 0.5;
+const WHITE_THRESHOLD = 248; // canais acima disso são tratados como branco e normalizados para 255
+const FOREGROUND_DISTANCE = 40; // soma das diferenças RGB para separar produto do fundo
+const PURE_WHITE_BORDER_RATIO = 0.98;
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/png": "png",
+};
+
+// #region: Análise de pixels
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not decode the image for export."));
+    img.src = src;
+  });
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not get canvas context");
+  return { canvas, ctx };
+};
+
+// Pixels da borda (moldura de 1px), onde o fundo deve aparecer
+const forEachBorderPixel = (width: number, height: number, visit: (offset: number) => void) => {
+  for (let x = 0; x < width; x++) {
+    visit(x * 4);
+    visit(((height - 1) * width + x) * 4);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    visit(y * width * 4);
+    visit((y * width + width - 1) * 4);
+  }
+};
+
+const analyzeBorder = (data: Uint8ClampedArray, width: number, height: number) => {
+  let count = 0, nearWhite = 0, pureWhite = 0, r = 0, g = 0, b = 0;
+  forEachBorderPixel(width, height, offset => {
+    const pr = data[offset], pg = data[offset + 1], pb = data[offset + 2];
+    count++;
+    r += pr; g += pg; b += pb;
+    if (Math.min(pr, pg, pb) >= WHITE_THRESHOLD) nearWhite++;
+    if (pr === 255 && pg === 255 && pb === 255) pureWhite++;
+  });
+  return {
+    color: [r / count, g / count, b / count] as const,
+    nearWhiteRatio: nearWhite / count,
+    pureWhiteRatio: pureWhite / count,
+  };
+};
+
+// Caixa do produto: pixels que diferem da cor média da borda
+const findForegroundBounds = (data: Uint8ClampedArray, width: number, height: number, background: readonly number[]) => {
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      const distance =
+        Math.abs(data[offset] - background[0]) + Math.abs(data[offset + 1] - background[1]) + Math.abs(data[offset + 2] - background[2]);
+      if (distance > FOREGROUND_DISTANCE) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+const snapNearWhite = (data: Uint8ClampedArray) => {
+  for (let i = 0; i < data.length; i += 4) {
+    if (Math.min(data[i], data[i + 1], data[i + 2]) >= WHITE_THRESHOLD) {
+      data[i] = data[i + 1] = data[i + 2] = 255;
+    }
+  }
+};
+
+const encodeCanvas = (canvas: HTMLCanvasElement, format: ExportFormat, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Could not encode the exported image."))), format, quality)
+  );
+
+// #endregion
+
+// #region: Cabeçalho do arquivo
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) => String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+// Marcadores SOF (início de quadro) do JPEG; C4, C8 e CC usam a mesma faixa para outras coisas
+const isJpegFrameMarker = (marker: number) => marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+
+/**
+ * Largura e altura lidas do cabeçalho de um PNG (IHDR), JPEG (SOF) ou WebP (VP8, VP8L, VP8X),
+ * sem decodificar os pixels. Null quando o formato não é reconhecido ou o arquivo está truncado.
+ */
+export const readImageDimensions = (bytes: Uint8Array): { width: number; height: number } | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const fits = (end: number) => end <= bytes.length;
+
+  if (fits(24) && bytes[0] === 0x89 && ascii(bytes, 1, 3) === "PNG" && ascii(bytes, 12, 4) === "IHDR") {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  if (fits(4) && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (fits(offset + 4)) {
+      if (bytes[offset] !== 0xff) return null;
+      const marker = bytes[offset + 1];
+      // Preenchimento entre segmentos e marcadores sem tamanho
+      if (marker === 0xff) { offset++; continue; }
+      if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) { offset += 2; continue; }
+      if (marker === 0xd9 || marker === 0xda) return null;
+      if (isJpegFrameMarker(marker)) {
+        return fits(offset + 9) ? { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) } : null;
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+    return null;
+  }
+
+  if (fits(16) && ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WEBP") {
+    const chunk = ascii(bytes, 12, 4);
+    if (!fits(chunk === "VP8L" ? 25 : 30)) return null;
+    if (chunk === "VP8 ") return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+    if (chunk === "VP8L") {
+      const bits = view.getUint32(21, true);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === "VP8X") {
+      const uint24 = (offset: number) => bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+      return { width: uint24(24) + 1, height: uint24(27) + 1 };
+    }
+  }
+  return null;
+};
+
+// #endregion
+
+const formatMegabytes = (bytes: number) => `${(bytes / MB).toFixed(1)} MB`;
+
+/**
+ * Reprocessa uma imagem para o perfil e devolve o arquivo final com o resultado de cada regra.
+ * `index` é a posição da imagem no anúncio (0 = imagem principal).
+ */
+export const processImageForProfile = async (
+  image: ImageItem,
+  index: number,
+  profile: ExportProfile,
+  baseName: string
+): Promise<ProcessedExport> => {
+  const img = await loadImage(await resolveImageSrc(image));
+  const source = createCanvas(img.naturalWidth, img.naturalHeight);
+  source.ctx.drawImage(img, 0, 0);
+  const sourceData = source.ctx.getImageData(0, 0, img.naturalWidth, img.naturalHeight).data;
+  const border = analyzeBorder(sourceData, img.naturalWidth, img.naturalHeight);
+  const bounds = findForegroundBounds(sourceData, img.naturalWidth, img.naturalHeight, border.color);
+
+  const { canvas, ctx } = createCanvas(profile.width, profile.height);
+  ctx.fillStyle = "#FFFFFF";
+  ctx.fillRect(0, 0, profile.width, profile.height);
+
+  // Reenquadrar só funciona quando o fundo original já é quase branco; senão o recorte ficaria visível
+  const requiresWhite = profile.whiteBackground === "all" || (profile.whiteBackground === "main" && index === 0);
+  if (profile.targetFillRatio && bounds && border.nearWhiteRatio >= PURE_WHITE_BORDER_RATIO) {
+    const scale = Math.min(
+      (profile.width * profile.targetFillRatio) / bounds.width,
+      (profile.height * profile.targetFillRatio) / bounds.height
+    );
+    const drawWidth = bounds.width * scale;
+    const drawHeight = bounds.height * scale;
+    ctx.drawImage(img, bounds.x, bounds.y, bounds.width, bounds.height,
+      (profile.width - drawWidth) / 2, (profile.height - drawHeight) / 2, drawWidth, drawHeight);
+  } else {
+    const scale = Math.min(profile.width / img.naturalWidth, profile.height / img.naturalHeight);
+    const drawWidth = img.naturalWidth * scale;
+    const drawHeight = img.naturalHeight * scale;
+    ctx.drawImage(img, (profile.width - drawWidth) / 2, (profile.height - drawHeight) / 2, drawWidth, drawHeight);
+  }
+
+  const output = ctx.getImageData(0, 0, profile.width, profile.height);
+  if (requiresWhite) {
+    snapNearWhite(output.data);
+    ctx.putImageData(output, 0, 0);
+  }
+
+  const checks: ExportCheck[] = [];
+
+  const longestSide = Math.max(img.naturalWidth, img.naturalHeight);
+  if (longestSide < Math.max(profile.width, profile.height)) {
+    checks.push({ id: "resolution", passed: false, severity: "warning", message: `Upscaled from ${longestSide}px; fine detail may look soft.` });
+  }
+
+  const outputBorder = analyzeBorder(output.data, profile.width, profile.height);
+  if (requiresWhite) {
+    const passed = outputBorder.pureWhiteRatio >= PURE_WHITE_BORDER_RATIO;
+    checks.push({
+      id: "background",
+      passed,
+      severity: "error",
+      message: passed
+        ? "Pure white (#FFFFFF) background."
+        : `Background is not pure white: only ${Math.round(outputBorder.pureWhiteRatio * 100)}% of the edge pixels are #FFFFFF.`,
+    });
+  }
+
+  const outputBounds = findForegroundBounds(output.data, profile.width, profile.height, outputBorder.color);
+  const fillRatio = outputBounds ? Math.max(outputBounds.width / profile.width, outputBounds.height / profile.height) : null;
+  if (profile.minFillRatio) {
+    const passed = fillRatio !== null && fillRatio >= profile.minFillRatio;
+    checks.push({
+      id: "fill",
+      passed,
+      severity: "error",
+      message: fillRatio === null
+        ? "Could not find the product against the background."
+        : `Product fills ${Math.round(fillRatio * 100)}% of the frame (minimum ${Math.round(profile.minFillRatio * 100)}%).`,
+    });
+  }
+
+  let quality = profile.quality;
+  let blob = await encodeCanvas(canvas, profile.format, quality);
+  while (blob.size > profile.maxFileSizeBytes && profile.format !== "image/png" && quality > MIN_QUALITY) {
+    quality = Math.max(MIN_QUALITY, quality - 0.1);
+    blob = await encodeCanvas(canvas, profile.format, quality);
+  }
+  // Confere as dimensões no arquivo codificado, não no canvas que o gerou; basta o cabeçalho
+  const encoded = readImageDimensions(new Uint8Array(await blob.arrayBuffer()));
+  const width = encoded?.width ?? 0;
+  const height = encoded?.height ?? 0;
+  const dimensionsMatch = width === profile.width && height === profile.height;
+  checks.unshift({
+    id: "dimensions",
+    passed: dimensionsMatch,
+    severity: "error",
+    message: !encoded
+      ? "Could not read the dimensions of the exported file."
+      : dimensionsMatch
+        ? `${width}×${height}px`
+        : `File is ${width}×${height}px; the profile requires ${profile.width}×${profile.height}px.`,
+  });
+
+  checks.push({
+    id: "fileSize",
+    passed: blob.size <= profile.maxFileSizeBytes,
+    severity: "error",
+    message: `${formatMegabytes(blob.size)} (limit ${formatMegabytes(profile.maxFileSizeBytes)})`,
+  });
+
+  return {
+    image,
+    profileId: profile.id,
+    fileName: profile.fileName(baseName, index, EXTENSIONS[profile.format]),
+    blob,
+    width,
+    height,
+    fillRatio,
+    checks,
+  };
+};
+
+export const getViolations = (result: ProcessedExport): ExportCheck[] => result.checks.filter(check => !check.passed);
+
+/**
+ * Processa todas as imagens para cada perfil, em sequência para não segurar vários canvas grandes ao mesmo tempo.
+ */
+export const processImagesForProfiles = async (
+  images: ImageItem[],
+  profiles: readonly ExportProfile[],
+  baseName: string,
+  onProgress?: (progress: number) => void
+): Promise<ProcessedExport[]> => {
+  const results: ProcessedExport[] = [];
+  const total = images.length * profiles.length;
+  for (const profile of profiles) {
+    for (const [index, image] of images.entries()) {
+      results.push(await processImageForProfile(image, index, profile, baseName));
+      onProgress?.((100 * results.length) / total);
+    }
+  }
+  return results;
+};
@@ -0,0 +1,26 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { computeRetryDelay } from './geminiService';
+import { GenerationError } from './generationErrors';
+import type { RetryPolicy } from '../types';
+
+const policy: RetryPolicy = { maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 5000, jitter: 0.5 };
+const networkError = new GenerationError('network', 'reset');
+
+describe('computeRetryDelay', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('doubles the base delay per attempt up to the ceiling', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect([1, 2, 3, 4].map(attempt => computeRetryDelay(policy, attempt, networkError))).toEqual([1000, 2000, 4000, 5000]);
+  });
+
+  it('shortens the delay by at most the jitter fraction', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    expect(computeRetryDelay(policy, 2, networkError)).toBe(1000);
+  });
+
+  it('follows a server hint, capped at the maximum delay', () => {
+    expect(computeRetryDelay(policy, 1, new GenerationError('quota', '429', { retryAfterMs: 3000 }))).toBe(3000);
+    expect(computeRetryDelay(policy, 1, new GenerationError('quota', '429', { retryAfterMs: 60000 }))).toBe(5000);
+  });
+});
@@ -1,5 +1,8 @@
-import { GoogleGenAI, Modality } from "@google/genai";
-import type { BatchCallbackPayload } from '../types';
+import type { AnglePreset, BatchCallbackPayload, GeneratedVariation, GenerationEvent, GenerationFailure, GenerationSettings, GeneratedImage, ImageGenerationProvider, OutputResolution, Palette, ReferenceImage, ReferenceView, RetryEvent, RetryPolicy, ScenePreset } from '../types';
+import { getImageProvider } from './providers';
+import { isAbortError, runWithConcurrency, sleep, type PauseGate } from './asyncUtils';
+import { GenerationError, classifyGenerationError } from './generationErrors';
+import { requestLimiter } from './requestLimiter';
 
 /**
  * Serviço de geração de variações de imagem a partir de uma foto de referência.
@@ -8,53 +11,101 @@ import type { BatchCallbackPayload } from '../types';
  * Observações:
  * - Mantém compatibilidade com as assinaturas originais exportadas.
  * - Melhora validações, tratamento de erros e legibilidade.
+ * - A chamada ao modelo é delegada a um ImageGenerationProvider (ver services/providers).
  */
 
 // -------------- Config e utilidades --------------
 
-const API_KEY = process.env.API_KEY;
-if (!API_KEY) {
-  throw new Error("API_KEY not defined in environment variables. Please set your Gemini API key.");
-}
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: 0.3,
+};
+
+export const MAX_CANDIDATES_PER_ANGLE = 4;
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  concurrency: 5,
+  candidatesPerAngle: 1,
+};
+
+// Backoff exponencial com jitter; uma dica Retry-After do servidor tem precedência
+export const computeRetryDelay = (policy: RetryPolicy, attempt: number, error: GenerationError): number => {
+  if (error.retryAfterMs !== undefined) return Math.min(error.retryAfterMs, policy.maxDelayMs);
+  const exponential = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+  return Math.round(exponential * (1 - policy.jitter * Math.random()));
+};
 
-// Helper function to retry API calls on failure with exponential backoff
-const generateContentWithRetry = async (
-  params: Parameters<typeof ai.models.generateContent>[0],
-  retries = 3,
-  delay = 1000
-): Promise<ReturnType<typeof ai.models.generateContent>> => {
-  for (let i = 0; i < retries; i++) {
+// Helper function to retry API calls on failure with exponential backoff.
+// An aborted signal stops immediately: no further attempts and no backoff wait.
+// Non-retryable errors (safety, blocked, invalid input) fail on the first attempt;
+// the error that escapes is always a GenerationError carrying the attempt count.
+// Every attempt goes through the shared request limiter; a rate-limit hint holds it off globally.
+const generateContentWithRetry = async <T>(
+  request: (attempt: number) => Promise<T>,
+  options?: {
+    policy?: Partial<RetryPolicy>;
+    signal?: AbortSignal;
+    onAttempt?: (attempt: number) => void;
+    onRetry?: (event: RetryEvent) => void;
+  }
+): Promise<T> => {
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...options?.policy };
+  const signal = options?.signal;
+
+  for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+    signal?.throwIfAborted();
+    // The limiter slot covers only the request itself, never the backoff wait
+    const release = await requestLimiter.acquire(signal);
+    let error: unknown;
     try {
-      return await ai.models.generateContent(params);
-    } catch (error) {
-      console.warn(`Attempt ${i + 1} of ${retries} failed. Retrying in ${delay * (i + 1)}ms...`, error);
-      if (i === retries - 1) {
-        // Last attempt failed, re-throw the error to be caught by the caller.
-        throw error;
-      }
-      await new Promise(resolve => setTimeout(resolve, delay * (i + 1))); // simple exponential backoff
+      options?.onAttempt?.(attempt);
+      return await request(attempt);
+    } catch (caught) {
+      error = caught;
+    } finally {
+      release();
+    }
+
+    if (signal?.aborted || isAbortError(error)) throw error;
+    const classified = classifyGenerationError(error);
+    classified.attempts = attempt;
+    if (attempt === policy.maxAttempts || !classified.retryable) {
+      // Last useful attempt failed, re-throw the error to be caught by the caller.
+      throw classified;
     }
+    const delayMs = computeRetryDelay(policy, attempt, classified);
+    const rateLimited = classified.retryAfterMs !== undefined;
+    if (rateLimited) requestLimiter.holdOff(delayMs);
+    console.warn(`Attempt ${attempt} of ${policy.maxAttempts} failed (${classified.kind}). Retrying in ${delayMs}ms...`, error);
+    options?.onRetry?.({ attempt, maxAttempts: policy.maxAttempts, delayMs, kind: classified.kind, rateLimited });
+    await sleep(delayMs, signal);
   }
   // This line should be unreachable due to the throw in the loop
   throw new Error("Retry logic completed without success or error.");
 };
 
 
-// Modelo default
-const DEFAULT_MODEL_ID = "gemini-2.5-flash-image";
-
 // Conjunto de instruções base (sempre incluídas)
 const BASE_INSTRUCTIONS =
-  "Fundamental: Preserve exactly the visual identity of the reference object—shape/geometry, relative dimensions, colors, materials, texture, labels/logos, and any existing text. Do not add, remove, or rearrange parts; do not alter colors, finishes, gloss, labels, typography, or proportions. For reflective or transparent materials (glass/metal/plastic), maintain soft, controlled highlights without hotspots and without reflecting invented environments. The result must be a high-quality photograph for a catalog/e-commerce, rendered in a 1080x1080 pixel square format.";
+  "Fundamental: Preserve exactly the visual identity of the reference object—shape/geometry, relative dimensions, colors, materials, texture, labels/logos, and any existing text. Do not add, remove, or rearrange parts; do not alter colors, finishes, gloss, labels, typography, or proportions. For reflective or transparent materials (glass/metal/plastic), maintain soft, controlled highlights without hotspots and without reflecting invented environments. The result must be a high-quality photograph for a catalog/e-commerce, in a square format.";
 
 // Lista negativa aplicada a todas as gerações (ajuda a evitar drift)
 const NEGATIVE_PROMPT =
   "Avoid: additional elements/props, color changes, deformations, excessive specular highlights, blown-out brightness, harsh shadows, people/hands, extra surfaces, new or altered texts/logos, perspective distortions, incomplete cutouts, patterned backgrounds, watermarks.";
 
-// Helper para compor o prompt final
-const composePrompt = (anglePrompt: string): string => `${anglePrompt} ${BASE_INSTRUCTIONS} ${NEGATIVE_PROMPT}`;
+// Cor usada em {{brandColor}} quando nenhuma paleta é informada
+const BRAND_COLOR_FALLBACK = "#3b82f6";
+
+// Helper para compor o prompt final. Um cenário vem por último porque substitui o fundo
+// (e a restrição de props) descritos no ângulo e na lista negativa.
+export const composePrompt = (anglePrompt: string, scene?: ScenePreset, palette?: Pick<Palette, "primary">): string => {
+  const base = `${anglePrompt} ${BASE_INSTRUCTIONS} ${NEGATIVE_PROMPT}`;
+  if (!scene) return base;
+  const scenePrompt = scene.prompt.replace(/\{\{brandColor\}\}/g, palette?.primary ?? BRAND_COLOR_FALLBACK);
+  return `${base} Scene override (takes precedence over any background, surface or prop instruction above): ${scenePrompt}`;
+};
 
 // Sanitiza Base64 removendo prefixo de data URL, se houver
 const sanitizeBase64 = (data: string): string => data.split(",")[1] || data;
@@ -62,53 +113,219 @@ const sanitizeBase64 = (data: string): string => data.split(",")[1] || data;
 // Valida o MIME type de entrada
 const isSupportedImageMime = (mime: string): boolean => /^(image\/(png|jpeg|jpg|webp))$/i.test(mime);
 
-// Extrai o primeiro base64 de imagem presente no candidato
-const extractBase64FromCandidate = (candidate: any): string | null => {
-  if (!candidate?.content?.parts) return null;
-  for (const part of candidate.content.parts) {
-    if (part?.inlineData?.data) return part.inlineData.data as string;
-  }
-  return null;
+// Converte um erro de geração na falha estruturada exibida no relatório
+export const toGenerationFailure = (error: unknown, angle: AnglePreset, angleIndex: number): GenerationFailure => {
+  const classified = classifyGenerationError(error);
+  return {
+    angle,
+    angleIndex,
+    kind: classified.kind,
+    attempts: classified.attempts,
+    retryable: classified.retryable,
+    detail: classified.detail,
+  };
 };
 
 // -------------- Prompts detalhados (10 ângulos) --------------
 
-export const detailedAnglePrompts: readonly string[] = [
-  composePrompt(
-    "Generate an image of the product at a three-quarter left angle (≈45°). Neutral background (white or light-gray), continuous studio lighting, soft and realistic discreet shadow. Preserve shape, colors, materials, and labels exactly as the reference. No props."
-  ),
-  composePrompt(
-    "Generate a frontal image with the camera at the object's height, natural perspective (no wide-angle exaggeration), matte white background, slight DOF to highlight the product. Existing labels and texts must remain legible and unchanged."
-  ),
-  composePrompt(
-    "Generate an image of the product seen exactly from above (90°), central framing, neutral white background, diffuse light, no hotspots. Preserve geometry and proportions as per the reference."
-  ),
-  composePrompt(
-    "Generate an image at the three-quarter right angle (≈45°), same soft studio lighting, coherent shadow. Maintain identical visual identity and proportions to the reference."
-  ),
-  composePrompt(
-    "Generate a moderate close-up highlighting the main material/texture or relevant area (e.g., surface, label, finish). Keep colors, typography, and micro-details faithful to the reference. Slightly blurred neutral background."
-  ),
-  composePrompt(
-    "Generate an image from a low angle, looking slightly up at the product, making it look imposing. Neutral studio background, soft lighting to avoid harsh shadows. Maintain exact proportions."
-  ),
-  composePrompt(
-    "Generate an image from a high three-quarter angle, looking down at the product (hero shot perspective). Clean, neutral background. Lighting should emphasize the top surfaces. No distortion."
-  ),
-  composePrompt(
-    "Generate an image showing the back of the product, maintaining the same studio lighting. This is useful for showing details on the reverse side. Colors and geometry must be identical to the reference."
-  ),
-  composePrompt(
-    "Generate a dramatic shot with high-contrast 'chiaroscuro' lighting. Light and shadow should play across the product's surface to emphasize its form and texture. The background should be very dark (dark gray, not pure black)."
-  ),
-  composePrompt(
-    "Generate an image of the product on a simple, elegant, clean, neutral surface that complements the product, like a polished concrete slab or a light wood board. The background must be a simple, out-of-focus studio wall."
-  )
-] as const;
+// Presets padrão da biblioteca de ângulos; o prompt guarda só o texto do ângulo (composePrompt é aplicado na geração)
+export const defaultAnglePresets: readonly AnglePreset[] = [
+  {
+    id: "three-quarter-left",
+    name: "45° Left",
+    prompt: "Generate an image of the product at a three-quarter left angle (≈45°). Neutral background (white or light-gray), continuous studio lighting, soft and realistic discreet shadow. Preserve shape, colors, materials, and labels exactly as the reference. No props.",
+    thumbnail: null,
+  },
+  {
+    id: "front",
+    name: "Front",
+    prompt: "Generate a frontal image with the camera at the object's height, natural perspective (no wide-angle exaggeration), matte white background, slight DOF to highlight the product. Existing labels and texts must remain legible and unchanged.",
+    thumbnail: null,
+  },
+  {
+    id: "top-down",
+    name: "Top Down",
+    prompt: "Generate an image of the product seen exactly from above (90°), central framing, neutral white background, diffuse light, no hotspots. Preserve geometry and proportions as per the reference.",
+    thumbnail: null,
+  },
+  {
+    id: "three-quarter-right",
+    name: "45° Right",
+    prompt: "Generate an image at the three-quarter right angle (≈45°), same soft studio lighting, coherent shadow. Maintain identical visual identity and proportions to the reference.",
+    thumbnail: null,
+  },
+  {
+    id: "close-up",
+    name: "Close-up",
+    prompt: "Generate a moderate close-up highlighting the main material/texture or relevant area (e.g., surface, label, finish). Keep colors, typography, and micro-details faithful to the reference. Slightly blurred neutral background.",
+    thumbnail: null,
+  },
+  {
+    id: "low-angle",
+    name: "Low Angle",
+    prompt: "Generate an image from a low angle, looking slightly up at the product, making it look imposing. Neutral studio background, soft lighting to avoid harsh shadows. Maintain exact proportions.",
+    thumbnail: null,
+  },
+  {
+    id: "high-angle",
+    name: "High Angle (Hero)",
+    prompt: "Generate an image from a high three-quarter angle, looking down at the product (hero shot perspective). Clean, neutral background. Lighting should emphasize the top surfaces. No distortion.",
+    thumbnail: null,
+  },
+  {
+    id: "back",
+    name: "Back",
+    prompt: "Generate an image showing the back of the product, maintaining the same studio lighting. This is useful for showing details on the reverse side. Colors and geometry must be identical to the reference.",
+    thumbnail: null,
+  },
+  {
+    id: "chiaroscuro",
+    name: "Chiaroscuro",
+    prompt: "Generate a dramatic shot with high-contrast 'chiaroscuro' lighting. Light and shadow should play across the product's surface to emphasize its form and texture. The background should be very dark (dark gray, not pure black).",
+    thumbnail: null,
+  },
+  {
+    id: "surface",
+    name: "On Surface",
+    prompt: "Generate an image of the product on a simple, elegant, clean, neutral surface that complements the product, like a polished concrete slab or a light wood board. The background must be a simple, out-of-focus studio wall.",
+    thumbnail: null,
+  }
+];
+
+export const detailedAnglePrompts: readonly string[] = defaultAnglePresets.map(preset => composePrompt(preset.prompt));
+
+// -------------- Cenários (matriz ângulo × cenário) --------------
+
+export const defaultScenePresets: readonly ScenePreset[] = [
+  {
+    id: "pure-white",
+    name: "Pure White",
+    prompt: "Seamless pure white (#FFFFFF) e-commerce background, evenly lit, with only a soft natural contact shadow under the product. No props, no gradients, no surface texture.",
+  },
+  {
+    id: "transparent-ready",
+    name: "Transparent-Ready",
+    prompt: "Perfectly flat, uniform light-gray (#F2F2F2) background with no shadow, reflection or gradient, so the product can be cut out cleanly onto a transparent background. Crisp, well-defined product edges.",
+  },
+  {
+    id: "brand-color",
+    name: "Brand Color",
+    prompt: "Seamless studio backdrop in the brand color {{brandColor}}, evenly lit, with a soft realistic shadow. The backdrop color must not tint or change the product's own colors.",
+  },
+  {
+    id: "marble",
+    name: "Marble Countertop",
+    prompt: "Lifestyle scene: the product stands on a white marble countertop, soft window light from the side, background softly out of focus.",
+  },
+  {
+    id: "wood",
+    name: "Wooden Table",
+    prompt: "Lifestyle scene: the product stands on a warm natural wood table, soft daylight, a blurred neutral interior in the background.",
+  },
+  {
+    id: "linen",
+    name: "Linen Cloth",
+    prompt: "Lifestyle scene: the product rests on a neutral beige linen cloth with gentle folds, soft diffuse light, calm and minimal composition.",
+  },
+  {
+    id: "christmas",
+    name: "Christmas",
+    prompt: "Seasonal scene (Christmas): subtle festive setting with warm out-of-focus bokeh lights and a few pine branches in the background, kept away from the product and never covering it.",
+  },
+  {
+    id: "summer",
+    name: "Summer",
+    prompt: "Seasonal scene (summer): bright sunlit setting on a light sand-colored surface, crisp natural shadows, soft blue tones in the blurred background.",
+  },
+];
 
+/**
+ * Expande os ângulos em uma matriz por cenário (todos os ângulos no 1º cenário, depois no 2º...).
+ * Sem cenários, os ângulos seguem como estão, com o fundo descrito no próprio prompt.
+ */
+export const expandSceneMatrix = (angles: readonly AnglePreset[], scenes: readonly ScenePreset[]): AnglePreset[] =>
+  scenes.length === 0
+    ? [...angles]
+    : scenes.flatMap(scene =>
+        angles.map(angle => ({ ...angle, id: `${angle.id}@${scene.id}`, name: `${angle.name} · ${scene.name}`, scene }))
+      );
+
+// Id do ângulo da biblioteca que originou um ângulo expandido
+export const baseAngleId = (angle: AnglePreset): string =>
+  angle.scene ? angle.id.slice(0, -(angle.scene.id.length + 1)) : angle.id;
+
+
+// -------------- Referências múltiplas --------------
+
+// Fotos extras por pedido, além da principal; acima disso ficam só as mais relevantes ao ângulo
+export const MAX_REFERENCE_IMAGES = 3;
+
+const REFERENCE_VIEW_LABELS: Record<ReferenceView, string> = {
+  front: "the front",
+  back: "the back",
+  side: "a side",
+  top: "the top",
+  detail: "a close-up detail",
+  other: "another view",
+};
+
+// Vistas mais úteis para cada ângulo padrão, em ordem de preferência
+const ANGLE_REFERENCE_VIEWS: Record<string, ReferenceView[]> = {
+  "three-quarter-left": ["side", "front"],
+  "three-quarter-right": ["side", "front"],
+  "front": ["front", "detail"],
+  "top-down": ["top", "detail"],
+  "close-up": ["detail", "front"],
+  "low-angle": ["front", "side"],
+  "high-angle": ["top", "side"],
+  "back": ["back", "side"],
+  "surface": ["side", "front"],
+};
+
+// Ângulos personalizados: a vista preferida é deduzida do texto do prompt
+const PROMPT_VIEW_HINTS: [RegExp, ReferenceView][] = [
+  [/\b(back|rear|reverse)\b/i, "back"],
+  [/\b(above|top|overhead)\b/i, "top"],
+  [/\b(close-up|detail|texture|label|macro)\b/i, "detail"],
+  [/\b(side|profile|three-quarter)\b/i, "side"],
+  [/\b(front|frontal)\b/i, "front"],
+];
+
+/**
+ * Ordena as referências extras pela relevância para o ângulo e aplica o limite por pedido.
+ */
+export const selectReferencesForAngle = (angle: AnglePreset, references: readonly ReferenceImage[]): ReferenceImage[] => {
+  const preferred = ANGLE_REFERENCE_VIEWS[baseAngleId(angle)] ?? PROMPT_VIEW_HINTS.filter(([pattern]) => pattern.test(angle.prompt)).map(([, view]) => view);
+  const rank = (reference: ReferenceImage) => {
+    const index = preferred.indexOf(reference.view);
+    return index === -1 ? preferred.length : index;
+  };
+  return [...references].sort((a, b) => rank(a) - rank(b)).slice(0, MAX_REFERENCE_IMAGES);
+};
+
+// Explica ao modelo o que cada imagem extra mostra (a principal é sempre a primeira)
+const describeReferences = (references: readonly ReferenceImage[]): string =>
+  references.length === 0
+    ? ""
+    : ` The first image is the main reference. ${references
+        .map((reference, index) => `Image ${index + 2} shows ${REFERENCE_VIEW_LABELS[reference.view]} of the same product.`)
+        .join(" ")} Use all references to reproduce every detail faithfully; they depict one single object.`;
 
 // -------------- Núcleo de geração --------------
 
+type SingleGenerationOptions = {
+  modelId?: string;
+  provider?: ImageGenerationProvider;
+  signal?: AbortSignal;
+  references?: readonly ReferenceImage[]; // enviadas como estão; a seleção por ângulo é feita antes
+  referencePrompt?: string; // substitui a descrição automática das referências no prompt
+  seed?: number;
+  resolution?: OutputResolution;
+  retryPolicy?: Partial<RetryPolicy>;
+  onAttempt?: (attempt: number) => void; // chamado quando o pedido sai do limitador
+  onRetry?: (event: RetryEvent) => void; // chamado antes de cada espera entre tentativas
+};
+
 /**
  * Gera uma única variação de imagem a partir de uma imagem base e de um prompt específico de ângulo.
  */
@@ -116,62 +333,197 @@ export const generateSingleImageVariation = async (
   base64Data: string,
   mimeType: string,
   prompt: string,
-  options?: { modelId?: string }
+  options?: SingleGenerationOptions
 ): Promise<string> => {
+  const image = await generateSingleImage(base64Data, mimeType, prompt, options);
+  return image.data; // returns only the raw base64 (without data URL prefix)
+};
+
+/**
+ * Variante de generateSingleImageVariation que devolve também o MIME e os metadados do provider.
+ */
+export const generateSingleImage = async (
+  base64Data: string,
+  mimeType: string,
+  prompt: string,
+  options?: SingleGenerationOptions
+): Promise<GeneratedImage> => {
   if (!isSupportedImageMime(mimeType)) {
-    throw new Error(
+    throw new GenerationError(
+      "invalid-input",
       `Unsupported MIME type: ${mimeType}. Use PNG, JPEG, or WEBP.`
     );
   }
 
-  const modelId = options?.modelId || DEFAULT_MODEL_ID;
+  const references = options?.references ?? [];
+  const unsupported = references.find(reference => !isSupportedImageMime(reference.mimeType));
+  if (unsupported) {
+    throw new GenerationError(
+      "invalid-input",
+      `Unsupported MIME type: ${unsupported.mimeType}. Use PNG, JPEG, or WEBP.`
+    );
+  }
+
+  const provider = options?.provider ?? getImageProvider();
   const sanitizedBase64 = sanitizeBase64(base64Data);
+  const providerReferences = references.map(reference => ({ data: sanitizeBase64(reference.src), mimeType: reference.mimeType }));
+  const fullPrompt = prompt + (options?.referencePrompt ?? describeReferences(references));
+
+  return generateContentWithRetry(
+    (attempt) => provider.generate(sanitizedBase64, mimeType, fullPrompt, {
+      modelId: options?.modelId,
+      signal: options?.signal,
+      references: providerReferences,
+      seed: options?.seed,
+      resolution: options?.resolution,
+      attempt,
+    }),
+    { policy: options?.retryPolicy, signal: options?.signal, onAttempt: options?.onAttempt, onRetry: options?.onRetry }
+  );
+};
 
-  const response = await generateContentWithRetry({
-    model: modelId,
-    contents: {
-      parts: [
-        {
-          inlineData: {
-            data: sanitizedBase64,
-            mimeType,
-          },
-        },
-        { text: prompt },
-      ],
-    },
-    config: {
-      responseModalities: [Modality.IMAGE],
-    },
-  });
-
-  const candidate = response.candidates?.[0];
-
-  if (!candidate) {
-    const reason = response.promptFeedback?.blockReason;
-    if (reason) throw new Error(`Generation blocked. Reason: ${reason}.`);
-    throw new Error("The API response does not contain any valid candidates.");
-  }
+/**
+ * Gera (ou regenera) a variação de um único ângulo e devolve a data URL pronta para a galeria.
+ */
+export const generateAngleVariation = async (
+  base64Data: string,
+  mimeType: string,
+  angle: AnglePreset,
+  options?: SingleGenerationOptions & { palette?: Pick<Palette, "primary"> }
+): Promise<GeneratedVariation> => {
+  const references = selectReferencesForAngle(angle, options?.references ?? []);
+  const prompt = composePrompt(angle.prompt, angle.scene, options?.palette);
+  const image = await generateSingleImage(base64Data, mimeType, prompt, { ...options, references });
+  return { src: `data:${image.mimeType};base64,${image.data}`, angle, metadata: image.metadata, prompt };
+};
 
-  if (candidate.finishReason && candidate.finishReason !== "STOP") {
-    if (candidate.finishReason === "SAFETY") {
-      const blockedRating = candidate.safetyRatings?.find((r: any) => r.blocked);
-      const category = blockedRating ? ` Category: ${blockedRating.category}` : "";
-      throw new Error(`Generation blocked for safety reasons.${category}`);
-    }
-    throw new Error(`Generation failed. Reason: ${candidate.finishReason}.`);
-  }
+/**
+ * Refina uma imagem já gerada seguindo uma instrução do usuário. A imagem gerada vai como
+ * imagem principal e a foto original do produto como referência de identidade.
+ */
+export const refineImage = async (
+  generatedSrc: string,
+  sourceBase64: string,
+  sourceMimeType: string,
+  instruction: string,
+  options?: Omit<SingleGenerationOptions, "references" | "referencePrompt">
+): Promise<Omit<GeneratedVariation, "angle">> => {
+  const trimmed = instruction.trim();
+  if (!trimmed) throw new GenerationError("invalid-input", "Describe what should change in the image.");
+
+  const generatedMime = /^data:([^;,]+)/.exec(generatedSrc)?.[1] ?? "image/png";
+  const source: ReferenceImage = { id: "source", src: sourceBase64, mimeType: sourceMimeType, view: "front" };
+  const prompt =
+    `Edit this product photograph following this instruction: "${trimmed}". ` +
+    "Change only what the instruction asks for and keep the composition, camera angle, lighting and background otherwise identical. " +
+    "Output a single photorealistic image.";
+  const referencePrompt =
+    " Image 2 is the original photo of the product: the product must remain identical to it in shape, color, materials, text and logos.";
+
+  const image = await generateSingleImage(generatedSrc, generatedMime, prompt, { ...options, references: [source], referencePrompt });
+  return { src: `data:${image.mimeType};base64,${image.data}`, metadata: image.metadata, prompt };
+};
 
-  const base64Out = extractBase64FromCandidate(candidate);
-  if (!base64Out) {
-    throw new Error("No image data found in the API response.");
+/**
+ * Gera as variações com até `concurrency` pedidos simultâneos e emite um evento a cada
+ * mudança de estado de um ângulo, sem esperar pelos demais. Ângulos cancelados não emitem
+ * "failed"; os que ainda não começaram simplesmente não emitem nada.
+ */
+export const streamImageVariations = async (
+  base64Data: string,
+  mimeType: string,
+  angles: readonly AnglePreset[],
+  onEvent: (event: GenerationEvent) => void,
+  options?: {
+    concurrency?: number;
+    modelId?: string;
+    provider?: ImageGenerationProvider;
+    signal?: AbortSignal;
+    pauseGate?: PauseGate; // enquanto pausado, nenhum ângulo novo é iniciado
+    references?: readonly ReferenceImage[]; // fotos extras; cada ângulo recebe as mais relevantes
+    palette?: Pick<Palette, "primary">; // cor da marca para cenários com {{brandColor}}
+    retryPolicy?: Partial<RetryPolicy>;
+    angleIndexOffset?: number; // posição do primeiro ângulo na execução completa
+    seed?: number; // o candidato c de cada ângulo usa seed + c
+    resolution?: OutputResolution;
+    candidatesPerAngle?: number; // gera N imagens por ângulo e emite só a escolhida
+    selectCandidate?: (candidates: GeneratedVariation[]) => Promise<number> | number; // padrão: a primeira
   }
+): Promise<void> => {
+  const sanitizedBase64 = sanitizeBase64(base64Data);
+  const provider = options?.provider ?? getImageProvider();
+  const signal = options?.signal;
+  const offset = options?.angleIndexOffset ?? 0;
+  const items = angles.map((angle, index) => ({ angle, angleIndex: offset + index }));
+  const candidateCount = Math.max(1, Math.floor(options?.candidatesPerAngle ?? 1));
 
-  return base64Out; // returns only the raw base64 (without data URL prefix)
+  await runWithConcurrency(items, options?.concurrency ?? 5, async ({ angle, angleIndex }) => {
+    try {
+      await options?.pauseGate?.wait(signal);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      throw error;
+    }
+
+    const startedAt = Date.now();
+    const prompt = composePrompt(angle.prompt, angle.scene, options?.palette);
+    onEvent({ type: "started", angle, angleIndex });
+    try {
+      // Os candidatos de um ângulo saem juntos; o ângulo só falha se nenhum deles der certo
+      const results = await Promise.allSettled(
+        Array.from({ length: candidateCount }, (_, candidateIndex) =>
+          generateSingleImage(sanitizedBase64, mimeType, prompt, {
+            modelId: options?.modelId,
+            provider,
+            signal,
+            references: selectReferencesForAngle(angle, options?.references ?? []),
+            retryPolicy: options?.retryPolicy,
+            seed: options?.seed !== undefined ? options.seed + candidateIndex : undefined,
+            resolution: options?.resolution,
+            onAttempt: attempt => onEvent({ type: "attempt", angle, angleIndex, attempt }),
+            onRetry: retry => onEvent({ type: "retrying", angle, angleIndex, retry: { ...retry, angle } }),
+          })
+        )
+      );
+      const candidates: GeneratedVariation[] = [];
+      results.forEach((result, candidateIndex) => {
+        if (result.status !== "fulfilled") return;
+        const image = result.value;
+        const metadata = candidateCount > 1 ? { ...image.metadata, candidateIndex, candidateCount } : image.metadata;
+        candidates.push({ src: `data:${image.mimeType};base64,${image.data}`, angle, metadata, prompt });
+      });
+      if (candidates.length === 0) throw (results[0] as PromiseRejectedResult).reason;
+
+      const chosen = candidates.length > 1 && options?.selectCandidate ? await options.selectCandidate(candidates) : 0;
+      onEvent({
+        type: "succeeded",
+        angle,
+        angleIndex,
+        variation: candidates[chosen] ?? candidates[0],
+        candidates,
+        durationMs: Date.now() - startedAt,
+      });
+    } catch (error) {
+      if (signal?.aborted || isAbortError(error)) return;
+      const failure = toGenerationFailure(error, angle, angleIndex);
+
+      console.error(
+        JSON.stringify({
+          msg: "Failed to generate variation",
+          angleIndex: failure.angleIndex,
+          kind: failure.kind,
+          attempts: failure.attempts,
+          error: failure.detail,
+        })
+      );
+      onEvent({ type: "failed", angle, angleIndex, failure, durationMs: Date.now() - startedAt });
+    }
+  }, signal);
 };
 
 /**
  * Gera um número específico de variações em lotes e emite resultados parciais via callback.
+ * Cada lote é um streamImageVariations; o callback só é chamado quando o lote inteiro termina.
  */
 export const generateImageVariations = async (
   base64Data: string,
@@ -181,77 +533,55 @@ export const generateImageVariations = async (
   options?: {
     batchSize?: number; 
     modelId?: string;
+    provider?: ImageGenerationProvider;
+    angles?: readonly AnglePreset[];
+    signal?: AbortSignal; // cancela o restante da execução; imagens já entregues são mantidas
+    pauseGate?: PauseGate; // enquanto pausado, nenhum novo pedido é iniciado
+    references?: readonly ReferenceImage[];
+    palette?: Pick<Palette, "primary">;
+    retryPolicy?: Partial<RetryPolicy>;
+    seed?: number;
+    resolution?: OutputResolution;
+    onRetry?: (event: RetryEvent) => void; // o evento inclui o ângulo
   }
 ): Promise<void> => {
-  
-  // --- MOCK MODE ---
-  // To enable, open the browser console and type: window.MOCK_GENERATION = true
-  if ((window as any).MOCK_GENERATION === true) {
-    console.warn("--- MOCK GENERATION ENABLED ---");
-    const batchSize = options?.batchSize ?? 5;
-    for (let i = 0; i < numToGenerate; i += batchSize) {
-      await new Promise(resolve => setTimeout(resolve, 1000)); // Simulate network delay
-      const batchCount = Math.min(batchSize, numToGenerate - i);
-      const successes = Array(batchCount).fill(base64Data); // Use original image as mock
-      onBatchComplete({ successes, failures: [] });
-    }
-    return;
-  }
-  // --- END MOCK MODE ---
-  
-  const sanitizedBase64 = sanitizeBase64(base64Data);
   const batchSize = options?.batchSize ?? 5;
-  const modelId = options?.modelId || DEFAULT_MODEL_ID;
-
-  const promptsToRun = detailedAnglePrompts.slice(0, numToGenerate);
-
-  for (let i = 0; i < promptsToRun.length; i += batchSize) {
-    const batchPrompts = promptsToRun.slice(i, i + batchSize);
-
-    const imagePromises = batchPrompts.map((prompt) =>
-      generateSingleImageVariation(sanitizedBase64, mimeType, prompt, { modelId })
-    );
-
-    const results = await Promise.allSettled(imagePromises);
-
-    const successes: string[] = [];
-    const failures: string[] = [];
-
-    results.forEach((result, index) => {
-      if (result.status === "fulfilled") {
-        successes.push(`data:image/png;base64,${result.value}`);
-      } else {
-        const rawErrorMessage = result.reason instanceof Error ? result.reason.message : String(result.reason);
-        let friendlyErrorMessage = rawErrorMessage;
-
-        try {
-            const errorObj = JSON.parse(rawErrorMessage);
-            if (errorObj.error?.message) {
-                 friendlyErrorMessage = "Ocorreu um erro no servidor. Por favor, tente novamente.";
-            }
-        } catch (e) {
-            // Not JSON, check for common string patterns
-            const lowerCaseError = rawErrorMessage.toLowerCase();
-            if (lowerCaseError.includes("safety")) {
-                friendlyErrorMessage = "A geração foi bloqueada por motivos de segurança.";
-            } else if (lowerCaseError.includes("blocked")) {
-                friendlyErrorMessage = "A geração foi bloqueada por um motivo não especificado.";
-            } else if (lowerCaseError.includes("network") || lowerCaseError.includes("failed to fetch")) {
-                friendlyErrorMessage = "Falha de rede. Verifique sua conexão com a internet.";
-            }
-        }
-
-        console.error(
-          JSON.stringify({
-            msg: "Failed to generate variation",
-            angleIndex: i + index,
-            error: rawErrorMessage,
-          })
-        );
-        failures.push(`Variação ${i + index + 1}: ${friendlyErrorMessage}`);
+  const signal = options?.signal;
+
+  const anglesToRun = (options?.angles ?? defaultAnglePresets).slice(0, numToGenerate);
+
+  for (let i = 0; i < anglesToRun.length; i += batchSize) {
+    if (signal?.aborted) return;
+    const successes: GeneratedVariation[] = [];
+    const failures: GenerationFailure[] = [];
+
+    await streamImageVariations(
+      base64Data,
+      mimeType,
+      anglesToRun.slice(i, i + batchSize),
+      (event) => {
+        if (event.type === "succeeded") successes.push(event.variation);
+        else if (event.type === "failed") failures.push(event.failure);
+        else if (event.type === "retrying") options?.onRetry?.(event.retry);
+      },
+      {
+        concurrency: batchSize,
+        modelId: options?.modelId,
+        provider: options?.provider,
+        signal,
+        pauseGate: options?.pauseGate,
+        references: options?.references,
+        palette: options?.palette,
+        retryPolicy: options?.retryPolicy,
+        seed: options?.seed,
+        resolution: options?.resolution,
+        angleIndexOffset: i,
       }
-    });
+    );
 
+    // Resultados chegam fora de ordem; o callback mantém a ordem dos ângulos
+    successes.sort((a, b) => anglesToRun.indexOf(a.angle) - anglesToRun.indexOf(b.angle));
+    failures.sort((a, b) => a.angleIndex - b.angleIndex);
     onBatchComplete({ successes, failures });
   }
-};
\ No newline at end of file
+};
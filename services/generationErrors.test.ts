@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { generationErrorFromStatus, parseRetryAfterHeader } from './generationErrors';
+
+describe('parseRetryAfterHeader', () => {
+  afterEach(() => vi.useRealTimers());
+
+  it('reads delta-seconds', () => {
+    expect(parseRetryAfterHeader('12')).toBe(12000);
+    expect(parseRetryAfterHeader('0.5')).toBe(500);
+  });
+
+  it('reads an HTTP date relative to now', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+    expect(parseRetryAfterHeader('Wed, 01 Jan 2025 00:00:30 GMT')).toBe(30000);
+    expect(parseRetryAfterHeader('Tue, 31 Dec 2024 23:59:00 GMT')).toBe(0);
+  });
+
+  it('ignores missing or malformed values', () => {
+    expect(parseRetryAfterHeader(null)).toBeUndefined();
+    expect(parseRetryAfterHeader('')).toBeUndefined();
+    expect(parseRetryAfterHeader('soon')).toBeUndefined();
+  });
+});
+
+describe('generationErrorFromStatus', () => {
+  it('prefers the header hint and falls back to RetryInfo in the body', () => {
+    expect(generationErrorFromStatus(429, 'slow down', 4000).retryAfterMs).toBe(4000);
+    expect(generationErrorFromStatus(429, '{"retryDelay": "12s"}').retryAfterMs).toBe(12000);
+  });
+
+  it('does not retry credential errors', () => {
+    expect(generationErrorFromStatus(401, 'bad key').retryable).toBe(false);
+    expect(generationErrorFromStatus(503, 'busy').retryable).toBe(true);
+  });
+});
@@ -0,0 +1,125 @@
+import type { GenerationErrorKind } from '../types';
+
+/**
+ * Modelo tipado de erros de geração. Providers lançam GenerationError quando
+ * conhecem a causa; qualquer outro erro é classificado por classifyGenerationError.
+ */
+
+// Falhas determinísticas não melhoram com nova tentativa
+const DEFAULT_RETRYABLE: Record<GenerationErrorKind, boolean> = {
+  safety: false,
+  blocked: false,
+  quota: true,
+  network: true,
+  "invalid-input": false,
+  "no-image": true,
+  unknown: true,
+};
+
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  readonly retryable: boolean;
+  readonly detail: string;
+  readonly status?: number;
+  readonly retryAfterMs?: number; // dica do servidor (Retry-After / RetryInfo) para 429/503
+  attempts: number;
+
+  constructor(
+    kind: GenerationErrorKind,
+    detail: string,
+    options?: { retryable?: boolean; status?: number; retryAfterMs?: number; attempts?: number }
+  ) {
+    super(detail);
+    this.name = "GenerationError";
+    this.kind = kind;
+    this.detail = detail;
+    this.retryable = options?.retryable ?? DEFAULT_RETRYABLE[kind];
+    this.status = options?.status;
+    this.retryAfterMs = options?.retryAfterMs;
+    this.attempts = options?.attempts ?? 1;
+  }
+}
+
+const kindFromStatus = (status: number): GenerationErrorKind | null => {
+  if (status === 429) return "quota";
+  if (status === 400 || status === 413 || status === 415 || status === 422) return "invalid-input";
+  if (status >= 500) return "network";
+  return null;
+};
+
+// Header Retry-After: segundos ou data HTTP
+export const parseRetryAfterHeader = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// RetryInfo das APIs Google, embutido na mensagem do erro: "retryDelay": "12s"
+const parseRetryDelay = (detail: string): number | undefined => {
+  const match = detail.match(/"?retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Number(match[1]) * 1000 : undefined;
+};
+
+// Erro a partir de um status HTTP; 401/403 e afins (credenciais, permissão) não são repetidos
+export const generationErrorFromStatus = (status: number, detail: string, retryAfterMs?: number): GenerationError => {
+  const kind = kindFromStatus(status);
+  return kind
+    ? new GenerationError(kind, detail, { status, retryAfterMs: retryAfterMs ?? parseRetryDelay(detail) })
+    : new GenerationError("unknown", detail, { status, retryable: false });
+};
+
+/**
+ * Converte qualquer erro lançado durante a geração num GenerationError.
+ */
+export const classifyGenerationError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+
+  const detail = error instanceof Error ? error.message : String(error);
+  const status: number | undefined = typeof (error as any)?.status === "number" ? (error as any).status : undefined;
+
+  if (status !== undefined) return generationErrorFromStatus(status, detail);
+
+  const lower = detail.toLowerCase();
+  if (error instanceof TypeError || lower.includes("failed to fetch") || lower.includes("network")) {
+    return new GenerationError("network", detail);
+  }
+  if (lower.includes("resource_exhausted") || lower.includes("quota") || lower.includes("rate limit")) {
+    return new GenerationError("quota", detail, { retryAfterMs: parseRetryDelay(detail) });
+  }
+  if (lower.includes("safety")) return new GenerationError("safety", detail);
+  if (lower.includes("blocked")) return new GenerationError("blocked", detail);
+  return new GenerationError("unknown", detail);
+};
+
+// -------------- Mensagens localizadas --------------
+
+export type GenerationErrorLocale = "en" | "pt-BR";
+
+const GENERATION_ERROR_MESSAGES: Record<GenerationErrorLocale, Record<GenerationErrorKind, string>> = {
+  en: {
+    safety: "Blocked for safety reasons.",
+    blocked: "Blocked by the model for an unspecified reason.",
+    quota: "Rate limit or quota exceeded. Wait a moment and try again.",
+    network: "Network or server error. Check your connection and try again.",
+    "invalid-input": "The request was rejected as invalid (image format, size or settings).",
+    "no-image": "The model answered without an image.",
+    unknown: "An unexpected error occurred.",
+  },
+  "pt-BR": {
+    safety: "A geração foi bloqueada por motivos de segurança.",
+    blocked: "A geração foi bloqueada por um motivo não especificado.",
+    quota: "Limite de uso ou cota excedidos. Aguarde um pouco e tente novamente.",
+    network: "Falha de rede ou do servidor. Verifique sua conexão e tente novamente.",
+    "invalid-input": "O pedido foi rejeitado como inválido (formato, tamanho ou configurações da imagem).",
+    "no-image": "O modelo respondeu sem imagem.",
+    unknown: "Ocorreu um erro inesperado.",
+  },
+};
+
+export const getDefaultErrorLocale = (): GenerationErrorLocale =>
+  typeof navigator !== "undefined" && navigator.language?.toLowerCase().startsWith("pt") ? "pt-BR" : "en";
+
+export const describeGenerationError = (kind: GenerationErrorKind, locale: GenerationErrorLocale = getDefaultErrorLocale()): string =>
+  GENERATION_ERROR_MESSAGES[locale][kind] ?? GENERATION_ERROR_MESSAGES[locale].unknown;
@@ -0,0 +1,157 @@
+import type { ImageAdjustments, ImageEdit, ImageItem } from '../types';
+
+/**
+ * Edição não destrutiva: os pixels gerados ficam intactos em `ImageItem.src` e a pilha
+ * `ImageItem.edits` é reaplicada sempre que a versão editada é necessária.
+ */
+
+export const NEUTRAL_ADJUSTMENTS: ImageAdjustments = {
+  exposure: 0,
+  contrast: 0,
+  temperature: 0,
+  tint: 0,
+  saturation: 0,
+  sharpen: 0,
+};
+
+export const isNeutralAdjustments = (adjustments: ImageAdjustments) =>
+  (Object.keys(NEUTRAL_ADJUSTMENTS) as (keyof ImageAdjustments)[]).every(key => adjustments[key] === NEUTRAL_ADJUSTMENTS[key]);
+
+export const describeEdit = (edit: ImageEdit): string => {
+  switch (edit.type) {
+    case 'crop': return `Crop ${Math.round(edit.width * 100)}% × ${Math.round(edit.height * 100)}%`;
+    case 'rotate': return `Rotate ${edit.quarterTurns * 90}°`;
+    case 'flip': return edit.axis === 'horizontal' ? 'Flip horizontal' : 'Flip vertical';
+    case 'adjust': return 'Adjust colors';
+  }
+};
+
+// #region: Renderização
+
+type Drawable = HTMLImageElement | HTMLCanvasElement;
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not decode the image.'));
+    img.src = src;
+  });
+
+const sizeOf = (source: Drawable) =>
+  source instanceof HTMLImageElement ? { width: source.naturalWidth, height: source.naturalHeight } : { width: source.width, height: source.height };
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get canvas context');
+  return { canvas, ctx };
+};
+
+const clampByte = (value: number) => (value < 0 ? 0 : value > 255 ? 255 : value);
+
+// Exposição, contraste, balanço de branco e saturação, pixel a pixel
+const applyColorAdjustments = (data: Uint8ClampedArray, adjustments: ImageAdjustments) => {
+  const gain = Math.pow(2, adjustments.exposure);
+  const contrast = 1 + adjustments.contrast / 100;
+  const saturation = 1 + adjustments.saturation / 100;
+  const warm = adjustments.temperature * 0.3;
+  const magenta = adjustments.tint * 0.3;
+
+  for (let i = 0; i < data.length; i += 4) {
+    let r = data[i] * gain + warm;
+    let g = data[i + 1] * gain - magenta;
+    let b = data[i + 2] * gain - warm;
+    r = (r - 128) * contrast + 128;
+    g = (g - 128) * contrast + 128;
+    b = (b - 128) * contrast + 128;
+    const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    data[i] = clampByte(luma + (r - luma) * saturation);
+    data[i + 1] = clampByte(luma + (g - luma) * saturation);
+    data[i + 2] = clampByte(luma + (b - luma) * saturation);
+  }
+};
+
+// Nitidez por convolução 3x3 (centro 1 + 4a, vizinhos -a)
+const applySharpen = (data: Uint8ClampedArray, width: number, height: number, amount: number) => {
+  const a = amount / 100;
+  const source = data.slice();
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const neighbors = source[i - 4 + c] + source[i + 4 + c] + source[i - width * 4 + c] + source[i + width * 4 + c];
+        data[i + c] = clampByte(source[i + c] * (1 + 4 * a) - neighbors * a);
+      }
+    }
+  }
+};
+
+const applyEdit = (source: HTMLCanvasElement, edit: ImageEdit): HTMLCanvasElement => {
+  const { width, height } = source;
+  switch (edit.type) {
+    case 'crop': {
+      const sx = Math.round(edit.x * width);
+      const sy = Math.round(edit.y * height);
+      const { canvas, ctx } = createCanvas(edit.width * width, edit.height * height);
+      ctx.drawImage(source, sx, sy, canvas.width, canvas.height, 0, 0, canvas.width, canvas.height);
+      return canvas;
+    }
+    case 'rotate': {
+      const swap = edit.quarterTurns % 2 === 1;
+      const { canvas, ctx } = createCanvas(swap ? height : width, swap ? width : height);
+      ctx.translate(canvas.width / 2, canvas.height / 2);
+      ctx.rotate((edit.quarterTurns * Math.PI) / 2);
+      ctx.drawImage(source, -width / 2, -height / 2);
+      return canvas;
+    }
+    case 'flip': {
+      const { canvas, ctx } = createCanvas(width, height);
+      if (edit.axis === 'horizontal') {
+        ctx.translate(width, 0);
+        ctx.scale(-1, 1);
+      } else {
+        ctx.translate(0, height);
+        ctx.scale(1, -1);
+      }
+      ctx.drawImage(source, 0, 0);
+      return canvas;
+    }
+    case 'adjust': {
+      const { canvas, ctx } = createCanvas(width, height);
+      ctx.drawImage(source, 0, 0);
+      const imageData = ctx.getImageData(0, 0, width, height);
+      applyColorAdjustments(imageData.data, edit.adjustments);
+      if (edit.adjustments.sharpen > 0) applySharpen(imageData.data, width, height, edit.adjustments.sharpen);
+      ctx.putImageData(imageData, 0, 0);
+      return canvas;
+    }
+  }
+};
+
+/**
+ * Aplica a pilha sobre uma imagem já carregada. `maxSize` reduz a origem antes das
+ * edições (prévia rápida no editor e na galeria); sem ele, renderiza em resolução total.
+ */
+export const renderEditedCanvas = (source: Drawable, edits: readonly ImageEdit[], maxSize?: number): HTMLCanvasElement => {
+  const { width, height } = sizeOf(source);
+  const scale = maxSize ? Math.min(1, maxSize / Math.max(width, height)) : 1;
+  const { canvas, ctx } = createCanvas(width * scale, height * scale);
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return edits.reduce(applyEdit, canvas);
+};
+
+export const renderEditedImage = async (src: string, edits: readonly ImageEdit[], maxSize?: number): Promise<string> => {
+  const img = await loadImage(src);
+  return renderEditedCanvas(img, edits, maxSize).toDataURL('image/png');
+};
+
+/**
+ * Data URL da versão final de uma imagem: a editada quando há pilha, senão `src`.
+ */
+export const resolveImageSrc = async (image: Pick<ImageItem, 'src' | 'edits'>): Promise<string> =>
+  image.edits?.length ? renderEditedImage(image.src, image.edits) : image.src;
+
+// #endregion
@@ -0,0 +1,114 @@
+import type { ImageItem, ImageVersion, ImageVersionKind } from '../types';
+
+/**
+ * Versões de uma imagem da galeria. O ImageItem continua expondo a versão ativa nos seus
+ * próprios campos (`src`, `edits`...), então o resto do app não precisa conhecer as versões;
+ * a lista só é sincronizada ao criar ou trocar de versão.
+ */
+
+const versionFieldsOf = (image: ImageItem) => ({
+  src: image.src,
+  metadata: image.metadata,
+  originalSrc: image.originalSrc,
+  edits: image.edits,
+  quality: image.quality,
+});
+
+export const getActiveVersionId = (image: ImageItem): string => image.activeVersionId ?? `${image.id}.v1`;
+
+/**
+ * Todas as versões, com a ativa atualizada a partir do item (recortes e edições feitos depois dela).
+ */
+export const getVersions = (image: ImageItem): ImageVersion[] => {
+  const activeId = getActiveVersionId(image);
+  if (!image.versions?.length) {
+    return [{ id: activeId, kind: 'generation', ...versionFieldsOf(image), createdAt: 0 }];
+  }
+  return image.versions.map(version => (version.id === activeId ? { ...version, ...versionFieldsOf(image) } : version));
+};
+
+/**
+ * Abre o histórico de uma imagem recém-gerada, registrando o prompt e o horário da geração.
+ */
+export const startVersionHistory = (image: ImageItem, prompt?: string): ImageItem => {
+  const id = `${image.id}.v1`;
+  return { ...image, versions: [{ id, kind: 'generation', ...versionFieldsOf(image), prompt, createdAt: Date.now() }], activeVersionId: id };
+};
+
+/**
+ * Anexa versões sem ativá-las, como os candidatos descartados de um ângulo, que continuam
+ * disponíveis no histórico para serem escolhidos depois.
+ */
+export const addInactiveVersions = (image: ImageItem, added: Omit<ImageVersion, 'id' | 'createdAt'>[]): ImageItem => {
+  const versions = getVersions(image);
+  const createdAt = Date.now();
+  return {
+    ...image,
+    versions: [...versions, ...added.map((version, index) => ({ ...version, id: `${image.id}.v${versions.length + index + 1}`, createdAt }))],
+    activeVersionId: getActiveVersionId(image),
+  };
+};
+
+export const getActiveVersion = (image: ImageItem): ImageVersion => {
+  const activeId = getActiveVersionId(image);
+  return getVersions(image).find(version => version.id === activeId)!;
+};
+
+export const getParentVersion = (image: ImageItem): ImageVersion | undefined => {
+  const parentId = getActiveVersion(image).parentId;
+  return parentId ? getVersions(image).find(version => version.id === parentId) : undefined;
+};
+
+/**
+ * Adiciona uma versão e a torna ativa. Ela leva só os campos informados: recorte e edições
+ * da versão anterior não são herdados.
+ */
+export const addVersion = (image: ImageItem, version: Omit<ImageVersion, 'id' | 'createdAt'>): ImageItem => {
+  const versions = getVersions(image);
+  const created: ImageVersion = { ...version, id: `${image.id}.v${versions.length + 1}`, createdAt: Date.now() };
+  return {
+    ...image,
+    src: created.src,
+    metadata: created.metadata,
+    originalSrc: created.originalSrc,
+    edits: created.edits,
+    quality: created.quality,
+    versions: [...versions, created],
+    activeVersionId: created.id,
+  };
+};
+
+export const VERSION_KIND_LABELS: Record<ImageVersionKind, string> = {
+  generation: 'Generation',
+  regeneration: 'Regeneration',
+  refinement: 'Refinement',
+  edit: 'Edit',
+};
+
+/**
+ * Torna a versão ativa, ou seja, a escolhida como final para o álbum e as exportações.
+ */
+export const activateVersion = (image: ImageItem, versionId: string): ImageItem => {
+  const versions = getVersions(image);
+  const target = versions.find(version => version.id === versionId);
+  if (!target) return image;
+  return {
+    ...image,
+    src: target.src,
+    metadata: target.metadata,
+    originalSrc: target.originalSrc,
+    edits: target.edits,
+    quality: target.quality,
+    versions,
+    activeVersionId: target.id,
+  };
+};
+
+/**
+ * Verdadeiro enquanto a imagem segue na mesma versão de `snapshot`: sem versão nova, sem
+ * troca da versão ativa e sem recorte aplicado depois.
+ */
+export const isUnchangedSince = (image: ImageItem, snapshot: ImageItem): boolean =>
+  image.src === snapshot.src &&
+  getActiveVersionId(image) === getActiveVersionId(snapshot) &&
+  getVersions(image).length === getVersions(snapshot).length;
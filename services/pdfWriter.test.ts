@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { buildPdf, type PdfPage } from './pdfWriter';
+
+const page = (jpeg: number[]): PdfPage => ({ widthPt: 595.28, heightPt: 841.89, jpeg: new Uint8Array(jpeg), pixelWidth: 2, pixelHeight: 3 });
+
+// latin1 keeps one character per byte, so string indexes are byte offsets
+const readPdf = async (blob: Blob) => Buffer.from(await blob.arrayBuffer()).toString('latin1');
+
+describe('buildPdf', () => {
+  const pages = [page([0xff, 0xd8, 0x0a, 0xff, 0xd9]), page([0xff, 0xd8, 0x28, 0x29, 0xff, 0xd9])];
+
+  it('points startxref at the xref table', async () => {
+    const pdf = await readPdf(buildPdf(pages, { title: 'Catálogo (v2)' }));
+    const startxref = Number(/startxref\n(\d+)\n%%EOF\n$/.exec(pdf)?.[1]);
+    expect(pdf.startsWith('xref\n', startxref)).toBe(true);
+  });
+
+  it('records the byte offset of every object', async () => {
+    const pdf = await readPdf(buildPdf(pages));
+    const table = /xref\n0 (\d+)\n((?:\d{10} \d{5} [fn] \n)+)/.exec(pdf)!;
+    const size = Number(table[1]);
+    expect(size).toBe(1 + 3 + pages.length * 3);
+    expect(pdf).toContain(`/Size ${size} `);
+
+    const rows = table[2].trimEnd().split('\n');
+    expect(rows).toHaveLength(size);
+    expect(rows[0]).toBe('0000000000 65535 f ');
+    rows.slice(1).forEach((row, index) => {
+      const offset = Number(row.slice(0, 10));
+      expect(pdf.startsWith(`${index + 1} 0 obj\n`, offset)).toBe(true);
+    });
+  });
+
+  it('embeds each JPEG with its exact length', async () => {
+    const pdf = await readPdf(buildPdf(pages));
+    const lengths = [...pdf.matchAll(/\/DCTDecode \/Length (\d+) >>\nstream\n/g)];
+    expect(lengths.map(match => Number(match[1]))).toEqual([5, 6]);
+    lengths.forEach((match, index) => {
+      const start = match.index! + match[0].length;
+      const end = start + Number(match[1]);
+      expect(Buffer.from(pdf.slice(start, end), 'latin1')).toEqual(Buffer.from(pages[index].jpeg));
+      expect(pdf.startsWith('\nendstream', end)).toBe(true);
+    });
+  });
+
+  it('escapes info strings', async () => {
+    const pdf = await readPdf(buildPdf([], { title: 'Catálogo (v2) \\ 2025' }));
+    expect(pdf).toContain('/Title (Cat?logo \\(v2\\) \\\\ 2025)');
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Escritor mínimo de PDF: cada página é uma imagem JPEG ocupando a página inteira.
+ * Basta para catálogos renderizados em canvas, sem dependências externas.
+ */
+
+export interface PdfPage {
+  widthPt: number; // 1 pt = 1/72 pol.
+  heightPt: number;
+  jpeg: Uint8Array;
+  pixelWidth: number;
+  pixelHeight: number;
+}
+
+export interface PdfDocumentInfo {
+  title?: string;
+  author?: string;
+}
+
+// Strings literais do PDF: escapa delimitadores e troca o que não é ASCII imprimível
+const pdfString = (text: string) => `(${text.replace(/[\\()]/g, match => `\\${match}`).replace(/[^\x20-\x7e]/g, '?')})`;
+
+const pdfDate = (date: Date) => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+};
+
+/**
+ * Monta o arquivo PDF. Objetos: 1 catálogo, 2 árvore de páginas, 3 info e, para cada
+ * página, o objeto da página, o conteúdo e a imagem.
+ */
+export const buildPdf = (pages: readonly PdfPage[], info: PdfDocumentInfo = {}): Blob => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const push = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    push(`${id} 0 obj\n`);
+  };
+
+  const pageId = (index: number) => 4 + index * 3;
+  const objectCount = 3 + pages.length * 3;
+
+  // O comentário binário sinaliza a leitores que o arquivo contém dados binários
+  push('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+
+  beginObject(1);
+  push('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+  beginObject(2);
+  push(`<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+  beginObject(3);
+  const infoEntries = [
+    info.title && `/Title ${pdfString(info.title)}`,
+    info.author && `/Author ${pdfString(info.author)}`,
+    `/Producer ${pdfString('Ferrer Studio')}`,
+    `/CreationDate ${pdfString(pdfDate(new Date()))}`,
+  ].filter(Boolean);
+  push(`<< ${infoEntries.join(' ')} >>\nendobj\n`);
+
+  pages.forEach((page, index) => {
+    const id = pageId(index);
+    const width = page.widthPt.toFixed(2);
+    const height = page.heightPt.toFixed(2);
+
+    beginObject(id);
+    push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>\nendobj\n`);
+
+    const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`;
+    beginObject(id + 1);
+    push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+    beginObject(id + 2);
+    push(`<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+    push(page.jpeg);
+    push('\nendstream\nendobj\n');
+  });
+
+  const xrefOffset = length;
+  push(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+  for (let id = 1; id <= objectCount; id++) push(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  push(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(parts as BlobPart[], { type: 'application/pdf' });
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { buildProductsCsv, createProductInfo, parseTags, productFileStem, productImageFileName } from './productService';
+
+describe('buildProductsCsv', () => {
+  it('writes the header and CRLF-terminated rows', () => {
+    const product = { ...createProductInfo('Caneca'), sku: 'CM-042', price: 49.9, tags: ['cozinha', 'presente'] };
+    const csv = buildProductsCsv([{ product, images: ['cm/front.jpg', 'cm/side.jpg'], albums: ['cm/album.png'] }]);
+    expect(csv).toBe(
+      'sku,name,price,currency,description,tags,main_image,images,albums\r\n' +
+      'CM-042,Caneca,49.90,BRL,,cozinha|presente,cm/front.jpg,cm/front.jpg|cm/side.jpg,cm/album.png\r\n'
+    );
+  });
+
+  it('quotes fields with separators, quotes or line breaks', () => {
+    const product = { ...createProductInfo('Caneca "Clássica", 300ml'), description: 'Esmaltada\nlava-louças' };
+    const [, row] = buildProductsCsv([{ product, images: [], albums: [] }]).split('\r\n');
+    expect(row).toBe(',"Caneca ""Clássica"", 300ml",,BRL,"Esmaltada\nlava-louças",,,,');
+  });
+
+  it('leaves the price empty when unset', () => {
+    const [, row] = buildProductsCsv([{ product: createProductInfo('X'), images: [], albums: [] }]).split('\r\n');
+    expect(row.split(',')[2]).toBe('');
+  });
+});
+
+describe('file names', () => {
+  it('joins slugged SKU and name', () => {
+    expect(productFileStem({ ...createProductInfo('Caneca Esmaltada'), sku: 'CM 042' })).toBe('cm_042_caneca_esmaltada');
+    expect(productFileStem(createProductInfo())).toBe('');
+  });
+
+  it('falls back to a generic stem for single images', () => {
+    expect(productImageFileName(undefined, 'Vista 3/4', 'jpg')).toBe('product_shot_vista_3_4.jpg');
+  });
+});
+
+describe('parseTags', () => {
+  it('trims, drops empties and removes duplicates', () => {
+    expect(parseTags(' a, b,,a , c ')).toEqual(['a', 'b', 'c']);
+  });
+});
@@ -0,0 +1,124 @@
+import type { ProductDisplayOptions, ProductInfo } from '../types';
+
+/**
+ * Dados do produto (SKU, nome, preço, descrição e tags): formatação para o álbum,
+ * prefixo dos nomes de arquivo exportados e o manifesto lido pelos scripts de importação
+ * do e-commerce (products.csv e a seção "product" do manifest.json).
+ */
+
+export const PRODUCT_CURRENCIES: readonly string[] = ['BRL', 'USD', 'EUR', 'GBP', 'ARS', 'MXN'];
+
+export const createProductInfo = (name: string = ''): ProductInfo => ({
+  sku: '',
+  name,
+  currency: PRODUCT_CURRENCIES[0],
+  description: '',
+  tags: [],
+});
+
+export const DEFAULT_PRODUCT_DISPLAY: ProductDisplayOptions = {
+  caption: 'angle',
+  priceTag: 'none',
+  showSku: false,
+  showDescription: false,
+};
+
+export const hasProductInfo = (product: ProductInfo | undefined): product is ProductInfo =>
+  !!product && !!(product.sku.trim() || product.name.trim() || product.price !== undefined);
+
+// Preço no formato local ("R$ 49,90"); moedas inválidas caem para "XYZ 49.90"
+export const formatPrice = (product: ProductInfo | undefined): string | null => {
+  if (product?.price === undefined || !Number.isFinite(product.price)) return null;
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency: product.currency }).format(product.price);
+  } catch {
+    return `${product.currency} ${product.price.toFixed(2)}`.trim();
+  }
+};
+
+// Tags digitadas separadas por vírgula, sem repetições nem vazias
+export const parseTags = (text: string): string[] =>
+  [...new Set(text.split(',').map(tag => tag.trim()).filter(Boolean))];
+
+/**
+ * Legenda de uma vista no álbum conforme o modo escolhido; sem nome de produto,
+ * fica o nome da vista.
+ */
+export const productCaption = (label: string, product: ProductInfo | undefined, display: ProductDisplayOptions): string => {
+  const name = product?.name.trim();
+  if (!name || display.caption === 'angle') return label;
+  return display.caption === 'product' ? name : `${name} · ${label}`;
+};
+
+// -------------- Nomes de arquivo --------------
+
+const slugify = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+
+/**
+ * Prefixo dos arquivos exportados: "sku_nome" (ex.: "cm_042_caneca_esmaltada").
+ * Vazio quando o produto não tem SKU nem nome.
+ */
+export const productFileStem = (product: ProductInfo | undefined): string =>
+  product ? [product.sku, product.name].map(slugify).filter(Boolean).join('_') : '';
+
+// Imagem baixada sozinha: "sku_nome_vista.ext", ou "product_shot_vista.ext" sem dados do produto
+export const productImageFileName = (product: ProductInfo | undefined, label: string, extension: string): string =>
+  `${[productFileStem(product) || 'product_shot', slugify(label)].filter(Boolean).join('_')}.${extension}`;
+
+// -------------- Manifesto --------------
+
+export interface ProductManifestEntry {
+  sku: string;
+  name: string;
+  price: number | null;
+  currency: string;
+  formattedPrice: string | null;
+  description: string;
+  tags: string[];
+}
+
+export const toManifestProduct = (product: ProductInfo): ProductManifestEntry => ({
+  sku: product.sku.trim(),
+  name: product.name.trim(),
+  price: product.price ?? null,
+  currency: product.currency,
+  formattedPrice: formatPrice(product),
+  description: product.description.trim(),
+  tags: product.tags,
+});
+
+export interface ProductCsvRow {
+  product: ProductInfo;
+  images: string[]; // caminhos dentro do zip, na ordem da galeria
+  albums: string[];
+}
+
+const PRODUCT_CSV_COLUMNS = ['sku', 'name', 'price', 'currency', 'description', 'tags', 'main_image', 'images', 'albums'];
+
+// Aspas em todo campo com separador, aspas ou quebra de linha (RFC 4180)
+const csvField = (value: string): string => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * products.csv: uma linha por produto. Listas (tags, imagens, álbuns) usam "|" como
+ * separador; o preço sai com ponto decimal, sem símbolo de moeda.
+ */
+export const buildProductsCsv = (rows: readonly ProductCsvRow[]): string => {
+  const lines = rows.map(({ product, images, albums }) => [
+    product.sku.trim(),
+    product.name.trim(),
+    product.price !== undefined ? product.price.toFixed(2) : '',
+    product.currency,
+    product.description.trim(),
+    product.tags.join('|'),
+    images[0] ?? '',
+    images.join('|'),
+    albums.join('|'),
+  ].map(csvField).join(','));
+  return [PRODUCT_CSV_COLUMNS.join(','), ...lines].join('\r\n') + '\r\n';
+};
@@ -0,0 +1,79 @@
+import type { ProjectSession } from '../types';
+
+/**
+ * Armazenamento local de sessões em IndexedDB. Data URLs das imagens passam
+ * facilmente da cota do localStorage, por isso as sessões não ficam lá.
+ */
+
+const DB_NAME = "product-shot-generator";
+const DB_VERSION = 1;
+const SESSION_STORE = "sessions";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          db.createObjectStore(SESSION_STORE, { keyPath: "id" }).createIndex("updatedAt", "updatedAt");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error("Failed to open the local project store."));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Executa uma operação numa transação e resolve com o resultado do request
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SESSION_STORE, mode);
+    const request = run(transaction.objectStore(SESSION_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("Project store transaction aborted."));
+  });
+};
+
+export const createSessionId = (): string =>
+  `session-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const saveSession = async (session: ProjectSession): Promise<void> => {
+  await withStore("readwrite", store => store.put(session));
+};
+
+export const getSession = (id: string): Promise<ProjectSession | undefined> =>
+  withStore("readonly", store => store.get(id) as IDBRequest<ProjectSession | undefined>);
+
+// Sessões mais recentes primeiro
+export const listSessions = async (): Promise<ProjectSession[]> => {
+  const sessions = await withStore("readonly", store => store.getAll() as IDBRequest<ProjectSession[]>);
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await withStore("readwrite", store => store.delete(id));
+};
+
+export const renameSession = async (id: string, name: string): Promise<void> => {
+  const session = await getSession(id);
+  if (!session) throw new Error("Session not found.");
+  await saveSession({ ...session, name, updatedAt: Date.now() });
+};
+
+export const duplicateSession = async (id: string): Promise<ProjectSession> => {
+  const session = await getSession(id);
+  if (!session) throw new Error("Session not found.");
+  const now = Date.now();
+  const copy: ProjectSession = { ...session, id: createSessionId(), name: `${session.name} (copy)`, createdAt: now, updatedAt: now };
+  await saveSession(copy);
+  return copy;
+};
@@ -0,0 +1,113 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import type { GeneratedImage, GenerationErrorKind, ImageGenerationProvider, ProviderGenerateOptions } from '../../types';
+import { GenerationError } from '../generationErrors';
+
+/**
+ * Adapter do Gemini. O cliente é criado sob demanda para que a ausência de
+ * API_KEY só falhe quando este provider for realmente usado.
+ */
+
+export const GEMINI_DEFAULT_MODEL_ID = "gemini-2.5-flash-image";
+
+// imageSize só é aceito pelos modelos de imagem "pro"; nos demais a resolução é ignorada
+const MODELS_WITH_IMAGE_SIZE = ["gemini-3-pro-image-preview"];
+
+// Extrai o primeiro base64 de imagem presente no candidato
+const extractInlineImage = (candidate: any): { data: string; mimeType: string } | null => {
+  if (!candidate?.content?.parts) return null;
+  for (const part of candidate.content.parts) {
+    if (part?.inlineData?.data) {
+      return { data: part.inlineData.data as string, mimeType: part.inlineData.mimeType || "image/png" };
+    }
+  }
+  return null;
+};
+
+// Classifica um finishReason diferente de STOP
+const kindFromFinishReason = (finishReason: string): GenerationErrorKind => {
+  if (["SAFETY", "IMAGE_SAFETY", "PROHIBITED_CONTENT", "SPII"].includes(finishReason)) return "safety";
+  if (["RECITATION", "BLOCKLIST", "IMAGE_PROHIBITED_CONTENT", "IMAGE_RECITATION"].includes(finishReason)) return "blocked";
+  if (["NO_IMAGE", "IMAGE_OTHER"].includes(finishReason)) return "no-image";
+  return "unknown";
+};
+
+export const createGeminiProvider = (apiKey: string | undefined = process.env.API_KEY): ImageGenerationProvider => {
+  let ai: GoogleGenAI | null = null;
+
+  const getClient = (): GoogleGenAI => {
+    if (!apiKey) {
+      throw new GenerationError("invalid-input", "API_KEY not defined in environment variables. Please set your Gemini API key.");
+    }
+    if (!ai) ai = new GoogleGenAI({ apiKey });
+    return ai;
+  };
+
+  return {
+    id: "gemini",
+    label: "Google Gemini",
+    capabilities: {
+      models: [GEMINI_DEFAULT_MODEL_ID, ...MODELS_WITH_IMAGE_SIZE],
+      seed: true,
+      resolutions: ["1K", "2K", "4K"],
+      resolutionModels: MODELS_WITH_IMAGE_SIZE,
+    },
+    async generate(base64Data: string, mimeType: string, prompt: string, options?: ProviderGenerateOptions): Promise<GeneratedImage> {
+      const modelId = options?.modelId || GEMINI_DEFAULT_MODEL_ID;
+      const resolution = options?.resolution && MODELS_WITH_IMAGE_SIZE.includes(modelId) ? options.resolution : undefined;
+      const startedAt = Date.now();
+
+      const response = await getClient().models.generateContent({
+        model: modelId,
+        contents: {
+          parts: [
+            { inlineData: { data: base64Data, mimeType } },
+            ...(options?.references ?? []).map(ref => ({ inlineData: { data: ref.data, mimeType: ref.mimeType } })),
+            { text: prompt },
+          ],
+        },
+        config: {
+          responseModalities: [Modality.IMAGE],
+          abortSignal: options?.signal,
+          ...(options?.seed !== undefined ? { seed: options.seed } : {}),
+          ...(resolution ? { imageConfig: { imageSize: resolution } } : {}),
+        },
+      });
+
+      const candidate = response.candidates?.[0];
+
+      if (!candidate) {
+        const reason = response.promptFeedback?.blockReason;
+        if (reason) {
+          throw new GenerationError(reason === "SAFETY" ? "safety" : "blocked", `Generation blocked. Reason: ${reason}.`);
+        }
+        throw new GenerationError("no-image", "The API response does not contain any valid candidates.");
+      }
+
+      if (candidate.finishReason && candidate.finishReason !== "STOP") {
+        if (candidate.finishReason === "SAFETY") {
+          const blockedRating = candidate.safetyRatings?.find((r: any) => r.blocked);
+          const category = blockedRating ? ` Category: ${blockedRating.category}` : "";
+          throw new GenerationError("safety", `Generation blocked for safety reasons.${category}`);
+        }
+        throw new GenerationError(kindFromFinishReason(candidate.finishReason), `Generation failed. Reason: ${candidate.finishReason}.`);
+      }
+
+      const image = extractInlineImage(candidate);
+      if (!image) {
+        throw new GenerationError("no-image", "No image data found in the API response.");
+      }
+
+      return {
+        ...image,
+        metadata: {
+          provider: "gemini",
+          modelId,
+          finishReason: candidate.finishReason,
+          durationMs: Date.now() - startedAt,
+          seed: options?.seed,
+          resolution,
+        },
+      };
+    },
+  };
+};
@@ -0,0 +1,81 @@
+import type { GeneratedImage, ImageGenerationProvider, ProviderGenerateOptions } from '../../types';
+import { GenerationError, generationErrorFromStatus, parseRetryAfterHeader } from '../generationErrors';
+
+/**
+ * Adapter HTTP para qualquer endpoint de imagens no estilo OpenAI
+ * (POST multipart em /images/edits, resposta `{ data: [{ b64_json }] }`).
+ */
+
+export interface HttpProviderConfig {
+  baseUrl: string;
+  apiKey?: string;
+  modelId?: string;
+}
+
+const base64ToBlob = (base64Data: string, mimeType: string): Blob => {
+  const binary = atob(base64Data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const createHttpProvider = (config: HttpProviderConfig): ImageGenerationProvider => ({
+  id: "http",
+  label: "OpenAI-compatible HTTP",
+  capabilities: config.modelId ? { models: [config.modelId] } : undefined,
+  async generate(base64Data: string, mimeType: string, prompt: string, options?: ProviderGenerateOptions): Promise<GeneratedImage> {
+    if (!config.baseUrl) {
+      throw new GenerationError("invalid-input", "IMAGE_API_URL not defined in environment variables. Please set the images endpoint base URL.");
+    }
+
+    const modelId = options?.modelId || config.modelId;
+    const startedAt = Date.now();
+    const extensionOf = (mime: string) => mime.split("/")[1] || "png";
+    const references = options?.references ?? [];
+
+    const body = new FormData();
+    if (references.length === 0) {
+      body.append("image", base64ToBlob(base64Data, mimeType), `reference.${extensionOf(mimeType)}`);
+    } else {
+      // Endpoints que aceitam várias imagens recebem a lista em image[]
+      body.append("image[]", base64ToBlob(base64Data, mimeType), `reference.${extensionOf(mimeType)}`);
+      references.forEach((ref, index) => body.append("image[]", base64ToBlob(ref.data, ref.mimeType), `reference-${index + 2}.${extensionOf(ref.mimeType)}`));
+    }
+    body.append("prompt", prompt);
+    body.append("n", "1");
+    body.append("response_format", "b64_json");
+    if (modelId) body.append("model", modelId);
+
+    const response = await fetch(`${config.baseUrl.replace(/\/+$/, "")}/images/edits`, {
+      method: "POST",
+      headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : undefined,
+      body,
+      signal: options?.signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw generationErrorFromStatus(
+        response.status,
+        detail || `Image endpoint responded with HTTP ${response.status}.`,
+        parseRetryAfterHeader(response.headers.get("Retry-After"))
+      );
+    }
+
+    const payload = await response.json();
+    const data = payload?.data?.[0]?.b64_json;
+    if (!data) {
+      throw new GenerationError("no-image", "No image data found in the API response.");
+    }
+
+    return {
+      data,
+      mimeType: "image/png",
+      metadata: {
+        provider: "http",
+        modelId,
+        durationMs: Date.now() - startedAt,
+      },
+    };
+  },
+});
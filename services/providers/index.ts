@@ -0,0 +1,49 @@
+import type { ImageGenerationProvider } from '../../types';
+import { createGeminiProvider } from './geminiProvider';
+import { createLocalProvider } from './localProvider';
+import { createHttpProvider } from './httpProvider';
+import { createMockProvider, DEFAULT_MOCK_CONFIG, type MockProviderConfig } from './mockProvider';
+
+/**
+ * Registro dos providers de geração. O provider ativo vem de IMAGE_PROVIDER
+ * (default: gemini) e pode ser trocado em tempo de execução.
+ */
+
+const registry = new Map<string, ImageGenerationProvider>();
+
+export const registerImageProvider = (provider: ImageGenerationProvider): void => {
+  registry.set(provider.id, provider);
+};
+
+registerImageProvider(createGeminiProvider());
+registerImageProvider(createLocalProvider());
+registerImageProvider(
+  createHttpProvider({
+    baseUrl: process.env.IMAGE_API_URL || "",
+    apiKey: process.env.IMAGE_API_KEY,
+    modelId: process.env.IMAGE_API_MODEL,
+  })
+);
+// Configuração do mock ajustada por MOCK_LATENCY_MS e MOCK_FAILURE_RATE; a interface parte dela
+export const ENV_MOCK_CONFIG: MockProviderConfig = {
+  ...DEFAULT_MOCK_CONFIG,
+  ...(process.env.MOCK_LATENCY_MS ? { latencyMs: Number(process.env.MOCK_LATENCY_MS) } : {}),
+  ...(process.env.MOCK_FAILURE_RATE ? { failureRate: Number(process.env.MOCK_FAILURE_RATE) } : {}),
+};
+
+registerImageProvider(createMockProvider(ENV_MOCK_CONFIG));
+
+let activeProviderId = process.env.IMAGE_PROVIDER || "gemini";
+
+export const listImageProviders = (): ImageGenerationProvider[] => Array.from(registry.values());
+
+export const setActiveImageProvider = (id: string): void => {
+  if (!registry.has(id)) throw new Error(`Unknown image provider: ${id}.`);
+  activeProviderId = id;
+};
+
+export const getImageProvider = (id: string = activeProviderId): ImageGenerationProvider => {
+  const provider = registry.get(id);
+  if (!provider) throw new Error(`Unknown image provider: ${id}.`);
+  return provider;
+};
@@ -0,0 +1,34 @@
+import type { GeneratedImage, ImageGenerationProvider, ProviderGenerateOptions } from '../../types';
+
+/**
+ * Provider local e determinístico: não faz rede e devolve a própria imagem de
+ * referência. Útil para testar o fluxo offline contra um stub previsível.
+ */
+
+// Hash FNV-1a do prompt, registrado nos metadados para identificar a saída
+const hashPrompt = (prompt: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < prompt.length; i++) {
+    hash ^= prompt.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+};
+
+export const createLocalProvider = (): ImageGenerationProvider => ({
+  id: "local",
+  label: "Local (deterministic stub)",
+  async generate(base64Data: string, mimeType: string, prompt: string, options?: ProviderGenerateOptions): Promise<GeneratedImage> {
+    options?.signal?.throwIfAborted();
+    return {
+      data: base64Data,
+      mimeType,
+      metadata: {
+        provider: "local",
+        modelId: options?.modelId || `local-echo-${hashPrompt(prompt)}`,
+        finishReason: "STOP",
+        durationMs: 0,
+      },
+    };
+  },
+});
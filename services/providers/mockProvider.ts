@@ -0,0 +1,144 @@
+import type { GeneratedImage, ImageGenerationProvider, OutputResolution, ProviderGenerateOptions } from '../../types';
+import { sleep } from '../asyncUtils';
+import { GenerationError } from '../generationErrors';
+
+/**
+ * Provider offline para desenvolvimento e testes de UI. Produz uma saída
+ * visualmente distinta e determinística por prompt (rotação, tinta e rótulo
+ * aplicados em canvas), simula latência e injeta falhas configuráveis.
+ */
+
+export type MockFailureKind = "safety" | "network" | "finishReason" | "rateLimit";
+
+export interface MockProviderConfig {
+  latencyMs: number;
+  jitterMs: number;
+  failureRate: number; // 0..1, decidido de forma determinística pelo hash do prompt e da tentativa
+  failureKinds: MockFailureKind[];
+  finishReason: string; // usado pelas falhas do tipo "finishReason"
+  retryAfterMs?: number; // usado pelas falhas do tipo "rateLimit"
+}
+
+export const DEFAULT_MOCK_CONFIG: MockProviderConfig = {
+  latencyMs: 1000,
+  jitterMs: 500,
+  failureRate: 0,
+  failureKinds: ["safety", "network", "finishReason"],
+  finishReason: "RECITATION",
+  retryAfterMs: 2000,
+};
+
+const MOCK_OUTPUT_SIZES: Record<OutputResolution, number> = { "1K": 1024, "2K": 2048, "4K": 4096 };
+
+// Hash FNV-1a: mesma entrada, mesma saída
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new GenerationError("invalid-input", "Mock provider could not decode the reference image."));
+    img.src = src;
+  });
+
+// Primeiras palavras do prompt de ângulo, sem o verbo inicial, como legenda
+const captionFromPrompt = (prompt: string): string =>
+  prompt
+    .replace(/^Generate (an image of the product |an image |a )?/i, "")
+    .split(/[.,]/)[0]
+    .split(/\s+/)
+    .slice(0, 6)
+    .join(" ");
+
+const throwInjectedFailure = (kind: MockFailureKind, config: MockProviderConfig): never => {
+  switch (kind) {
+    case "safety":
+      throw new GenerationError("safety", "Generation blocked for safety reasons. Category: HARM_CATEGORY_DANGEROUS_CONTENT");
+    case "network":
+      throw new GenerationError("network", "Failed to fetch");
+    case "finishReason":
+      throw new GenerationError(config.finishReason === "NO_IMAGE" ? "no-image" : "blocked", `Generation failed. Reason: ${config.finishReason}.`);
+    case "rateLimit":
+      throw new GenerationError("quota", "Resource has been exhausted (e.g. check quota).", { status: 429, retryAfterMs: config.retryAfterMs });
+  }
+};
+
+const renderVariation = async (base64Data: string, mimeType: string, prompt: string, hash: number, referenceCount: number, size: number): Promise<string> => {
+  const img = await loadImage(`data:${mimeType};base64,${base64Data}`);
+  const scale = size / MOCK_OUTPUT_SIZES["1K"];
+  const canvas = document.createElement("canvas");
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  const hue = hash % 360;
+  const rotation = ((hash >>> 9) % 41) - 20; // -20°..20°
+
+  ctx.fillStyle = `hsl(${hue}, 40%, 92%)`;
+  ctx.fillRect(0, 0, size, size);
+
+  const fit = (size * 0.7) / Math.max(img.width, img.height);
+  ctx.save();
+  ctx.translate(size / 2, size / 2);
+  ctx.rotate((rotation * Math.PI) / 180);
+  ctx.drawImage(img, (-img.width * fit) / 2, (-img.height * fit) / 2, img.width * fit, img.height * fit);
+  ctx.restore();
+
+  ctx.fillStyle = `hsla(${hue}, 70%, 50%, 0.18)`;
+  ctx.fillRect(0, 0, size, size);
+
+  ctx.fillStyle = "rgba(15, 23, 42, 0.75)";
+  ctx.fillRect(0, size - 96 * scale, size, 96 * scale);
+  ctx.fillStyle = "#ffffff";
+  ctx.font = `600 ${32 * scale}px Inter, sans-serif`;
+  ctx.textAlign = "center";
+  const references = referenceCount > 0 ? ` · +${referenceCount} ref` : "";
+  ctx.fillText(`MOCK · ${captionFromPrompt(prompt)}${references}`, size / 2, size - 38 * scale);
+
+  return canvas.toDataURL("image/png").split(",")[1];
+};
+
+export const createMockProvider = (config: Partial<MockProviderConfig> = {}): ImageGenerationProvider => {
+  const settings: MockProviderConfig = { ...DEFAULT_MOCK_CONFIG, ...config };
+
+  return {
+    id: "mock",
+    label: "Mock (offline)",
+    capabilities: { models: ["mock-v1"], seed: true, resolutions: ["1K", "2K"] },
+    async generate(base64Data: string, mimeType: string, prompt: string, options?: ProviderGenerateOptions): Promise<GeneratedImage> {
+      // Com seed, cada valor produz outra saída para o mesmo prompt (e outra falha injetada, se houver)
+      const hash = hashString(options?.seed !== undefined ? `${prompt}#${options.seed}` : prompt);
+      const resolution = options?.resolution === "4K" ? undefined : options?.resolution;
+      const startedAt = Date.now();
+      await sleep(settings.latencyMs + (settings.jitterMs > 0 ? hash % settings.jitterMs : 0), options?.signal);
+
+      // A tentativa entra no sorteio para que um retry possa ter sucesso onde a primeira falhou
+      const failureHash = hashString(`${hash}@${options?.attempt ?? 1}`);
+      const roll = (failureHash % 1000) / 1000;
+      if (roll < settings.failureRate && settings.failureKinds.length > 0) {
+        throwInjectedFailure(settings.failureKinds[failureHash % settings.failureKinds.length], settings);
+      }
+
+      return {
+        data: await renderVariation(base64Data, mimeType, prompt, hash, options?.references?.length ?? 0, MOCK_OUTPUT_SIZES[resolution ?? "1K"]),
+        mimeType: "image/png",
+        metadata: {
+          provider: "mock",
+          modelId: options?.modelId || "mock-v1",
+          finishReason: "STOP",
+          durationMs: Date.now() - startedAt,
+          seed: options?.seed,
+          resolution,
+        },
+      };
+    },
+  };
+};
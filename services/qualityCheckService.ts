@@ -0,0 +1,185 @@
+import type { QualityCheck, QualityReport } from '../types';
+
+/**
+ * Verificação local de fidelidade: compara cada imagem gerada com a foto de referência
+ * (histograma de cores do produto, hash perceptual, proporção da silhueta) e detecta
+ * imagens vazias ou corrompidas. Tudo roda no navegador, sem chamadas ao modelo.
+ */
+
+export interface QualityCheckSettings {
+  threshold: number; // score mínimo (0..100) para uma imagem não ser marcada
+  autoRegenerate: boolean; // regenera sozinho as imagens abaixo do limite
+}
+
+export const DEFAULT_QUALITY_THRESHOLD = 60;
+export const DEFAULT_QUALITY_SETTINGS: QualityCheckSettings = { threshold: DEFAULT_QUALITY_THRESHOLD, autoRegenerate: false };
+export const MAX_AUTO_REGENERATIONS = 2; // por imagem, para não entrar em laço com um ângulo difícil
+
+const ANALYSIS_SIZE = 128;
+const FOREGROUND_DISTANCE = 60; // soma das diferenças RGB até a cor da borda
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+// Pesos do score: a cor é o sinal mais estável entre ângulos diferentes
+const WEIGHTS = { color: 0.55, hash: 0.25, silhouette: 0.2 };
+
+interface ImageSignature {
+  histogram: Float32Array; // 4 níveis por canal, só pixels do produto, normalizado
+  hash: Uint8Array; // dHash 8x8 do recorte do produto
+  aspect: number; // largura / altura da caixa do produto
+  foregroundRatio: number;
+  lumaStdDev: number;
+}
+
+// #region: Análise de pixels
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not decode the image.'));
+    img.src = src;
+  });
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get canvas context');
+  return { canvas, ctx };
+};
+
+const borderColor = (data: Uint8ClampedArray, width: number, height: number) => {
+  const sum = [0, 0, 0];
+  let count = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (x !== 0 && y !== 0 && x !== width - 1 && y !== height - 1) continue;
+      const offset = (y * width + x) * 4;
+      sum[0] += data[offset];
+      sum[1] += data[offset + 1];
+      sum[2] += data[offset + 2];
+      count++;
+    }
+  }
+  return sum.map(value => value / count);
+};
+
+const computeSignature = async (src: string): Promise<ImageSignature> => {
+  const img = await loadImage(src);
+  if (!img.naturalWidth || !img.naturalHeight) throw new Error('The image has no pixels.');
+
+  // Reduz mantendo a proporção; fundo branco para que recortes transparentes sejam comparáveis
+  const scale = ANALYSIS_SIZE / Math.max(img.naturalWidth, img.naturalHeight);
+  const { canvas, ctx } = createCanvas(img.naturalWidth * scale, img.naturalHeight * scale);
+  const { width, height } = canvas;
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+  const data = ctx.getImageData(0, 0, width, height).data;
+  const background = borderColor(data, width, height);
+
+  const histogram = new Float32Array(64);
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  let foreground = 0, lumaSum = 0, lumaSquares = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      const r = data[offset], g = data[offset + 1], b = data[offset + 2];
+      const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+      lumaSum += luma;
+      lumaSquares += luma * luma;
+      if (Math.abs(r - background[0]) + Math.abs(g - background[1]) + Math.abs(b - background[2]) <= FOREGROUND_DISTANCE) continue;
+      histogram[(r >> 6) * 16 + (g >> 6) * 4 + (b >> 6)]++;
+      foreground++;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  if (foreground > 0) histogram.forEach((value, i) => { histogram[i] = value / foreground; });
+
+  const pixelCount = width * height;
+  const lumaMean = lumaSum / pixelCount;
+  const box = maxX < 0 ? { x: 0, y: 0, width, height } : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+
+  // dHash: cada bit diz se um pixel é mais claro que o vizinho da direita
+  const hashCanvas = createCanvas(HASH_WIDTH, HASH_HEIGHT);
+  hashCanvas.ctx.drawImage(canvas, box.x, box.y, box.width, box.height, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const hashData = hashCanvas.ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT).data;
+  const grayAt = (x: number, y: number) => {
+    const offset = (y * HASH_WIDTH + x) * 4;
+    return hashData[offset] + hashData[offset + 1] + hashData[offset + 2];
+  };
+  const hash = new Uint8Array((HASH_WIDTH - 1) * HASH_HEIGHT);
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      hash[y * (HASH_WIDTH - 1) + x] = grayAt(x, y) > grayAt(x + 1, y) ? 1 : 0;
+    }
+  }
+
+  return {
+    histogram,
+    hash,
+    aspect: box.width / box.height,
+    foregroundRatio: foreground / pixelCount,
+    lumaStdDev: Math.sqrt(Math.max(0, lumaSquares / pixelCount - lumaMean * lumaMean)),
+  };
+};
+
+// #endregion
+
+// A referência é a mesma para todas as imagens de uma execução: guarda as últimas assinaturas
+const referenceCache = new Map<string, Promise<ImageSignature>>();
+const REFERENCE_CACHE_SIZE = 4;
+
+const getReferenceSignature = (src: string): Promise<ImageSignature> => {
+  const cached = referenceCache.get(src);
+  if (cached) return cached;
+  const signature = computeSignature(src);
+  signature.catch(() => referenceCache.delete(src));
+  referenceCache.set(src, signature);
+  if (referenceCache.size > REFERENCE_CACHE_SIZE) referenceCache.delete(referenceCache.keys().next().value!);
+  return signature;
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * Compara uma imagem gerada com a referência e devolve o score (0..100) com o detalhe de cada verificação.
+ */
+export const checkImageQuality = async (referenceSrc: string, imageSrc: string): Promise<QualityReport> => {
+  const reference = await getReferenceSignature(referenceSrc);
+  let image: ImageSignature;
+  try {
+    image = await computeSignature(imageSrc);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'The image could not be read.';
+    return { score: 0, checks: [{ id: 'blank', passed: false, value: 0, message }], checkedAt: Date.now() };
+  }
+
+  const isBlank = image.lumaStdDev < 3 || image.foregroundRatio < 0.002;
+  const colorMatch = reference.histogram.reduce((sum, value, i) => sum + Math.min(value, image.histogram[i]), 0);
+  const hammingDistance = reference.hash.reduce((sum, bit, i) => sum + (bit === image.hash[i] ? 0 : 1), 0);
+  // Hashes sem relação coincidem em ~50% dos bits: esse é o zero da escala
+  const hashMatch = clamp01((1 - hammingDistance / reference.hash.length - 0.5) / 0.5);
+  const aspectRatio = Math.max(reference.aspect, image.aspect) / Math.min(reference.aspect, image.aspect);
+  const silhouetteMatch = clamp01(1 - Math.log2(aspectRatio) / 2);
+
+  const checks: QualityCheck[] = [
+    { id: 'blank', passed: !isBlank, value: isBlank ? 0 : 1, message: isBlank ? 'Image looks blank or has no visible product' : 'Product visible' },
+    { id: 'color', passed: colorMatch >= 0.5, value: colorMatch, message: `Color match ${percent(colorMatch)}` },
+    { id: 'hash', passed: hashMatch >= 0.3, value: hashMatch, message: `Structure match ${percent(hashMatch)}` },
+    { id: 'silhouette', passed: silhouetteMatch >= 0.5, value: silhouetteMatch, message: `Silhouette proportion match ${percent(silhouetteMatch)}` },
+  ];
+  const score = isBlank
+    ? 0
+    : Math.round(100 * (WEIGHTS.color * colorMatch + WEIGHTS.hash * hashMatch + WEIGHTS.silhouette * silhouetteMatch));
+
+  return { score, checks, checkedAt: Date.now() };
+};
+
+export const isLikelyDrift = (report: QualityReport, threshold: number = DEFAULT_QUALITY_THRESHOLD) => report.score < threshold;
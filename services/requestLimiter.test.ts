@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRequestLimiter } from './requestLimiter';
+
+describe('createRequestLimiter', () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it('never grants more than maxConcurrent slots at once', async () => {
+    const limiter = createRequestLimiter({ maxConcurrent: 2, requestsPerMinute: 0 });
+    const first = await limiter.acquire();
+    await limiter.acquire();
+    let thirdGranted = false;
+    const third = limiter.acquire().then(release => { thirdGranted = true; return release; });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(thirdGranted).toBe(false);
+    expect(limiter.getState()).toMatchObject({ active: 2, queued: 1 });
+
+    first();
+    first(); // extra releases are ignored
+    await third;
+    expect(limiter.getState()).toMatchObject({ active: 2, queued: 0 });
+  });
+
+  it('refills the token bucket at the configured rate', async () => {
+    const limiter = createRequestLimiter({ maxConcurrent: 2, requestsPerMinute: 60 });
+    (await limiter.acquire())();
+    (await limiter.acquire())();
+    let granted = false;
+    limiter.acquire().then(() => { granted = true; });
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(granted).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(granted).toBe(true);
+  });
+
+  it('holds off new requests without touching those in flight', async () => {
+    const limiter = createRequestLimiter({ maxConcurrent: 2, requestsPerMinute: 0 });
+    await limiter.acquire();
+    limiter.holdOff(5000);
+    let granted = false;
+    limiter.acquire().then(() => { granted = true; });
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(granted).toBe(false);
+    expect(limiter.getState().active).toBe(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(granted).toBe(true);
+  });
+
+  it('drops an aborted request from the queue', async () => {
+    const limiter = createRequestLimiter({ maxConcurrent: 1, requestsPerMinute: 0 });
+    const release = await limiter.acquire();
+    const controller = new AbortController();
+    const waiting = limiter.acquire(controller.signal);
+    controller.abort();
+
+    await expect(waiting).rejects.toMatchObject({ name: 'AbortError' });
+    expect(limiter.getState().queued).toBe(0);
+    release();
+    expect(limiter.getState().active).toBe(0);
+  });
+});
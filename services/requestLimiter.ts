@@ -0,0 +1,118 @@
+import { createAbortError } from './asyncUtils';
+
+/**
+ * Limitador global de pedidos ao provider, compartilhado por execuções, regenerações
+ * e jobs do modo em lote. Combina um teto de pedidos simultâneos com um token bucket
+ * (pedidos por minuto) e uma pausa global quando o servidor responde 429/503.
+ */
+
+export interface RequestLimiterConfig {
+  maxConcurrent: number;
+  requestsPerMinute: number; // 0 desativa o token bucket
+}
+
+export interface RequestLimiterState {
+  active: number;
+  queued: number;
+  holdOffMs: number;
+}
+
+export interface RequestLimiter {
+  // Espera por uma vaga; a função devolvida libera a vaga (chamadas extras são ignoradas)
+  acquire(signal?: AbortSignal): Promise<() => void>;
+  // Suspende novos pedidos por `ms` (ex.: Retry-After de um 429); pedidos em andamento seguem
+  holdOff(ms: number): void;
+  configure(config: Partial<RequestLimiterConfig>): void;
+  getConfig(): RequestLimiterConfig;
+  getState(): RequestLimiterState;
+}
+
+export const createRequestLimiter = (initial: RequestLimiterConfig): RequestLimiter => {
+  let config: RequestLimiterConfig = { ...initial };
+  let active = 0;
+  let tokens = Math.max(1, config.maxConcurrent);
+  let lastRefill = Date.now();
+  let blockedUntil = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const queue: { grant: () => void }[] = [];
+
+  // A capacidade do bucket acompanha o teto de concorrência, permitindo uma rajada inicial
+  const refill = () => {
+    const now = Date.now();
+    if (config.requestsPerMinute > 0) {
+      const capacity = Math.max(1, config.maxConcurrent);
+      tokens = Math.min(capacity, tokens + ((now - lastRefill) * config.requestsPerMinute) / 60000);
+    }
+    lastRefill = now;
+  };
+
+  const schedule = (ms: number) => {
+    if (timer) return;
+    timer = setTimeout(() => {
+      timer = null;
+      pump();
+    }, ms);
+  };
+
+  const pump = () => {
+    refill();
+    while (queue.length > 0 && active < config.maxConcurrent) {
+      const now = Date.now();
+      if (now < blockedUntil) return schedule(blockedUntil - now);
+      if (config.requestsPerMinute > 0) {
+        if (tokens < 1) return schedule(Math.ceil(((1 - tokens) * 60000) / config.requestsPerMinute));
+        tokens -= 1;
+      }
+      active++;
+      queue.shift()!.grant();
+    }
+  };
+
+  return {
+    acquire(signal?: AbortSignal) {
+      if (signal?.aborted) return Promise.reject(createAbortError());
+      return new Promise<() => void>((resolve, reject) => {
+        let released = false;
+        const release = () => {
+          if (released) return;
+          released = true;
+          active--;
+          pump();
+        };
+        const entry = {
+          grant: () => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve(release);
+          },
+        };
+        const onAbort = () => {
+          const index = queue.indexOf(entry);
+          if (index >= 0) queue.splice(index, 1);
+          reject(createAbortError());
+        };
+        queue.push(entry);
+        signal?.addEventListener("abort", onAbort, { once: true });
+        pump();
+      });
+    },
+    holdOff(ms: number) {
+      blockedUntil = Math.max(blockedUntil, Date.now() + ms);
+    },
+    configure(next: Partial<RequestLimiterConfig>) {
+      config = { ...config, ...next };
+      pump();
+    },
+    getConfig() {
+      return { ...config };
+    },
+    getState() {
+      return { active, queued: queue.length, holdOffMs: Math.max(0, blockedUntil - Date.now()) };
+    },
+  };
+};
+
+// Instância compartilhada; ajustável por IMAGE_MAX_CONCURRENCY e IMAGE_REQUESTS_PER_MINUTE
+export const requestLimiter = createRequestLimiter({
+  maxConcurrent: Number(process.env.IMAGE_MAX_CONCURRENCY) || 5,
+  requestsPerMinute: Number(process.env.IMAGE_REQUESTS_PER_MINUTE) || 0,
+});
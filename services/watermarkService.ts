@@ -0,0 +1,193 @@
+import type { AlbumOptions, WatermarkOptions, WatermarkPosition } from '../types';
+
+/**
+ * Marca d'água: texto ou logo da marca, em uma das nove posições ou repetida em grade
+ * (reta ou diagonal), com rotação, margem, tamanho, opacidade e modo de mesclagem.
+ * O mesmo desenho serve para cada imagem do álbum, para a colagem inteira e para os
+ * arquivos exportados um a um.
+ */
+
+export const DEFAULT_WATERMARK: WatermarkOptions = {
+  content: 'logo',
+  text: '',
+  color: '#FFFFFF',
+  position: 'bottom-right',
+  repeat: 'single',
+  rotation: 0,
+  margin: 0,
+  size: 0.25,
+  opacity: 0.7,
+  blendMode: 'source-over',
+  applyToImages: true,
+  applyToAlbum: false,
+};
+
+// Nas repetições, o espaço entre carimbos nunca fica menor que esta fração da largura do carimbo
+const MIN_TILE_GAP = 0.4;
+
+export interface WatermarkArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Configuração salva nas opções do álbum, mesmo com a marca d'água desligada.
+ * Álbuns antigos só têm `watermarkOpacity` e continuam com o logo no canto.
+ */
+export const getWatermarkOptions = (options: AlbumOptions): WatermarkOptions =>
+  ({ ...DEFAULT_WATERMARK, opacity: options.watermarkOpacity, ...options.watermark });
+
+// Configuração efetiva, ou null com a marca d'água desligada
+export const resolveWatermark = (options: AlbumOptions): WatermarkOptions | null =>
+  options.showWatermark ? getWatermarkOptions(options) : null;
+
+// #region: Carimbo
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not decode the image.'));
+    img.src = src;
+  });
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  return { canvas, ctx };
+};
+
+/**
+ * Desenha o texto ou o logo num canvas próprio com a largura pedida, para ser repetido
+ * sem refazer a medição. Null quando não há o que desenhar (texto vazio, sem logo).
+ */
+const createStamp = (watermark: WatermarkOptions, logo: HTMLImageElement | null, fontFamily: string, width: number): HTMLCanvasElement | null => {
+  if (width < 1) return null;
+  if (watermark.content === 'logo') {
+    if (!logo) return null;
+    const { canvas, ctx } = createCanvas(width, (width / logo.width) * logo.height);
+    ctx.drawImage(logo, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  }
+
+  const text = watermark.text.trim();
+  if (!text) return null;
+  const { ctx: measure } = createCanvas(1, 1);
+  measure.font = `bold 100px ${fontFamily}`;
+  const fontSize = (100 * width) / Math.max(1, measure.measureText(text).width);
+  const { canvas, ctx } = createCanvas(width, fontSize * 1.3);
+  ctx.font = `bold ${fontSize}px ${fontFamily}`;
+  ctx.fillStyle = watermark.color;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(text, canvas.width / 2, canvas.height / 2);
+  return canvas;
+};
+
+// Centro do carimbo numa das nove posições, já descontada a margem
+const anchorPoint = (area: WatermarkArea, position: WatermarkPosition, stampW: number, stampH: number, margin: number) => {
+  const column = position.endsWith('left') ? 0 : position.endsWith('right') ? 2 : 1;
+  const row = position.startsWith('top') ? 0 : position.startsWith('bottom') ? 2 : 1;
+  const left = area.x + margin + stampW / 2;
+  const top = area.y + margin + stampH / 2;
+  return {
+    x: left + (column / 2) * (area.width - margin * 2 - stampW),
+    y: top + (row / 2) * (area.height - margin * 2 - stampH),
+  };
+};
+
+// #endregion
+
+/**
+ * Aplica a marca d'água sobre `area` do contexto. `fontFamily` é usada nas marcas de texto.
+ */
+export const drawWatermark = (
+  ctx: CanvasRenderingContext2D,
+  area: WatermarkArea,
+  watermark: WatermarkOptions,
+  logo: HTMLImageElement | null,
+  fontFamily: string
+) => {
+  const shortSide = Math.min(area.width, area.height);
+  const stamp = createStamp(watermark, logo, fontFamily, Math.min(watermark.size * shortSide, area.width));
+  if (!stamp) return;
+  const stampW = stamp.width;
+  const stampH = stamp.height;
+  const margin = watermark.margin * shortSide;
+  const angle = (watermark.rotation * Math.PI) / 180;
+
+  const drawStamp = (centerX: number, centerY: number, rotation: number) => {
+    ctx.save();
+    ctx.translate(centerX, centerY);
+    if (rotation) ctx.rotate(rotation);
+    ctx.drawImage(stamp, -stampW / 2, -stampH / 2);
+    ctx.restore();
+  };
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(area.x, area.y, area.width, area.height);
+  ctx.clip();
+  ctx.globalAlpha = watermark.opacity;
+  ctx.globalCompositeOperation = watermark.blendMode;
+
+  if (watermark.repeat === 'single') {
+    const { x, y } = anchorPoint(area, watermark.position, stampW, stampH, margin);
+    drawStamp(x, y, angle);
+  } else {
+    const stepX = stampW + Math.max(margin, stampW * MIN_TILE_GAP);
+    const stepY = stampH + Math.max(margin, stampW * MIN_TILE_GAP);
+    const centerX = area.x + area.width / 2;
+    const centerY = area.y + area.height / 2;
+    if (watermark.repeat === 'tiled') {
+      // Grade reta; cada carimbo gira em torno do próprio centro
+      const cols = Math.ceil(area.width / stepX / 2) + 1;
+      const rows = Math.ceil(area.height / stepY / 2) + 1;
+      for (let row = -rows; row <= rows; row++) {
+        for (let col = -cols; col <= cols; col++) drawStamp(centerX + col * stepX, centerY + row * stepY, angle);
+      }
+    } else {
+      // Grade inteira girada, com linhas alternadas deslocadas meio passo; cobre a diagonal da área
+      const reach = Math.hypot(area.width, area.height) / 2;
+      const cols = Math.ceil(reach / stepX) + 1;
+      const rows = Math.ceil(reach / stepY) + 1;
+      ctx.translate(centerX, centerY);
+      ctx.rotate(angle);
+      for (let row = -rows; row <= rows; row++) {
+        const offset = row % 2 === 0 ? 0 : stepX / 2;
+        for (let col = -cols; col <= cols; col++) drawStamp(col * stepX + offset, row * stepY, 0);
+      }
+    }
+  }
+  ctx.restore();
+};
+
+/**
+ * Devolve a imagem com a marca d'água aplicada, como data URL (JPEG continua JPEG).
+ * `maxSize` reduz o resultado, para prévias. Com a marca desligada, devolve `src`.
+ */
+export const applyWatermark = async (src: string, options: AlbumOptions, maxSize?: number): Promise<string> => {
+  const watermark = resolveWatermark(options);
+  if (!watermark) return src;
+  const logoSrc = watermark.content === 'logo' ? options.brandInfo.logoSrc : null;
+  if (watermark.content === 'logo' && !logoSrc) return src;
+
+  const [img, logo] = await Promise.all([loadImage(src), logoSrc ? loadImage(logoSrc) : Promise.resolve(null)]);
+  const scale = maxSize ? Math.min(1, maxSize / Math.max(img.width, img.height)) : 1;
+  const { canvas, ctx } = createCanvas(img.width * scale, img.height * scale);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  drawWatermark(ctx, { x: 0, y: 0, width: canvas.width, height: canvas.height }, watermark, logo, options.typography.titleFont);
+
+  const isJpeg = /^data:image\/jpe?g/.test(src);
+  return isJpeg ? canvas.toDataURL('image/jpeg', 0.92) : canvas.toDataURL('image/png');
+};
+
+// Arquivo exportado: com a marca quando ela vale para as imagens, senão o original
+export const watermarkForExport = (src: string, options: AlbumOptions): Promise<string> =>
+  resolveWatermark(options)?.applyToImages ? applyWatermark(src, options) : Promise.resolve(src);
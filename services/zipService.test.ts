@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { buildZipArchive, crc32 } from './zipService';
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(bytes('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('is zero for empty input', () => {
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe('buildZipArchive', () => {
+  const entries = [
+    { name: 'a.txt', data: bytes('hello') },
+    { name: 'pasta/ção.txt', data: bytes('world!') },
+  ];
+
+  const readArchive = async () => new DataView(await buildZipArchive(entries).arrayBuffer());
+
+  it('writes local headers followed by the stored data', async () => {
+    const view = await readArchive();
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(8, true)).toBe(0); // STORE
+    expect(view.getUint32(14, true)).toBe(crc32(entries[0].data));
+    expect(view.getUint32(18, true)).toBe(5);
+    expect(view.getUint16(26, true)).toBe(5);
+    const second = 30 + 5 + 5;
+    expect(view.getUint32(second, true)).toBe(0x04034b50);
+  });
+
+  it('points the central directory and end record at the right offsets', async () => {
+    const view = await readArchive();
+    const end = view.byteLength - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 8, true)).toBe(2);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+
+    const centralSize = view.getUint32(end + 12, true);
+    const centralOffset = view.getUint32(end + 16, true);
+    expect(centralOffset + centralSize).toBe(end);
+
+    // Each central entry points back at its local header
+    let cursor = centralOffset;
+    for (const entry of entries) {
+      expect(view.getUint32(cursor, true)).toBe(0x02014b50);
+      expect(view.getUint32(cursor + 16, true)).toBe(crc32(entry.data));
+      const localOffset = view.getUint32(cursor + 42, true);
+      expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+      const nameLength = view.getUint16(cursor + 28, true);
+      const name = new TextDecoder().decode(new Uint8Array(view.buffer, cursor + 46, nameLength));
+      expect(name).toBe(entry.name);
+      cursor += 46 + nameLength;
+    }
+    expect(cursor).toBe(end);
+  });
+});
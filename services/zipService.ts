@@ -1,5 +1,10 @@
 
-import type { AlbumOptions, ImageItem, Palette } from '../types';
+import type { AlbumOptions, BatchJob, ImageItem, Palette, ProductDisplayOptions, ProductInfo } from '../types';
+import type { ExportProfile, ProcessedExport } from './exportProfileService';
+import { resolveImageSrc } from './imageEditService';
+import { DEFAULT_ALBUM_FORMAT_ID, getAlbumCanvasSize, getAlbumFormat, getAlbumLayout, resolveLayoutRegions, type LayoutFlow, type LayoutRect, type LayoutRegion } from './albumLayouts';
+import { drawWatermark, resolveWatermark, watermarkForExport } from './watermarkService';
+import { DEFAULT_PRODUCT_DISPLAY, buildProductsCsv, formatPrice, hasProductInfo, productCaption, productFileStem, toManifestProduct } from './productService';
 
 // #region: Image and Color Utilities
 
@@ -76,12 +81,22 @@ export const createDefaultPalette = (): Palette => ({
 
 // #region: Layout Utilities
 
-const getGridConfiguration = (imageCount: number): { COLS: number; ROWS: number } => {
-    if (imageCount <= 3) return { COLS: imageCount, ROWS: 1 };
-    if (imageCount === 4) return { COLS: 2, ROWS: 2 };
-    if (imageCount <= 6) return { COLS: 3, ROWS: 2 };
-    if (imageCount <= 9) return { COLS: 3, ROWS: 3 };
-    return { COLS: 4, ROWS: Math.ceil(imageCount / 4) }; // Default for more images
+interface Box {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Column counts are tuned for a square area; wider or taller areas scale them by the square root of their aspect
+const getGridConfiguration = (imageCount: number, maxColumns: number = Infinity, aspect: number = 1): { COLS: number; ROWS: number } => {
+    let COLS: number;
+    if (imageCount <= 3) COLS = imageCount;
+    else if (imageCount === 4) COLS = 2;
+    else if (imageCount <= 9) COLS = 3;
+    else COLS = 4; // Default for more images
+    COLS = Math.max(1, Math.min(Math.round(COLS * Math.sqrt(aspect)), imageCount, maxColumns));
+    return { COLS, ROWS: Math.ceil(imageCount / COLS) };
 };
 
 const parseAspectRatio = (ratioStr: string): number => {
@@ -90,191 +105,754 @@ const parseAspectRatio = (ratioStr: string): number => {
     return parts[0] / parts[1];
 };
 
+const resolveArea = (body: Box, area: LayoutRect): Box => ({
+    x: body.x + area.x * body.width,
+    y: body.y + area.y * body.height,
+    width: area.width * body.width,
+    height: area.height * body.height,
+});
+
+/**
+ * Splits a layout region into one cell per image. Grids center an incomplete last row;
+ * rows, columns and lists keep their cells from growing larger than the content needs.
+ * A row in a region taller than wide (a portrait format) is laid out as a column.
+ * `captionHeight` is the caption area below each image, or the entry height for lists.
+ */
+const layoutCells = (box: Box, count: number, requestedFlow: LayoutFlow, gap: number, captionHeight: number, maxColumns?: number): Box[] => {
+    if (count === 0) return [];
+    const flow = requestedFlow === 'row' && box.height > box.width ? 'column' : requestedFlow;
+    const { COLS, ROWS } = flow === 'row' ? { COLS: count, ROWS: 1 }
+        : flow === 'column' || flow === 'list' ? { COLS: 1, ROWS: count }
+        : getGridConfiguration(count, maxColumns, box.width / box.height);
+
+    let cellWidth = (box.width - gap * (COLS - 1)) / COLS;
+    let cellHeight = (box.height - gap * (ROWS - 1)) / ROWS;
+    let left = box.x;
+    let top = box.y;
+    if (flow === 'row' || flow === 'list') {
+        const fitted = Math.min(cellHeight, flow === 'row' ? cellWidth + captionHeight : captionHeight);
+        // A row is centered in its region; a list starts at the top like a printed menu
+        if (flow === 'row') top += (cellHeight - fitted) / 2;
+        cellHeight = fitted;
+    } else if (flow === 'column') {
+        const fitted = Math.min(cellWidth, cellHeight - captionHeight);
+        left += (cellWidth - fitted) / 2;
+        cellWidth = fitted;
+    }
+
+    const itemsInLastRow = count % COLS;
+    return Array.from({ length: count }, (_, index) => {
+        const row = Math.floor(index / COLS);
+        const col = index % COLS;
+        let xOffset = 0;
+        if (row === ROWS - 1 && itemsInLastRow > 0) {
+            const lastRowWidth = (itemsInLastRow * cellWidth) + ((itemsInLastRow - 1) * gap);
+            xOffset = (box.width - lastRowWidth) / 2;
+        }
+        return { x: left + col * (cellWidth + gap) + xOffset, y: top + row * (cellHeight + gap), width: cellWidth, height: cellHeight };
+    });
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && ctx.measureText(candidate).width > maxWidth) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = candidate;
+        }
+    }
+    if (line) lines.push(line);
+    return lines;
+};
+
+// #endregion
+
+// #region: Album Rendering
+
+interface AlbumRenderContext {
+    ctx: CanvasRenderingContext2D;
+    options: AlbumOptions;
+    scale: number;
+    logoImage: HTMLImageElement | null;
+    product?: ProductInfo;
+    display: ProductDisplayOptions;
+}
+
+const drawFittedImage = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, box: Box, options: AlbumOptions) => {
+    const { imageFit, imageAspectRatio } = options;
+    if (imageFit === 'contain' || imageAspectRatio === 'auto') {
+        const imgScale = Math.min(box.width / img.width, box.height / img.height);
+        const scaledW = img.width * imgScale;
+        const scaledH = img.height * imgScale;
+        ctx.drawImage(img, box.x + (box.width - scaledW) / 2, box.y + (box.height - scaledH) / 2, scaledW, scaledH);
+        return;
+    }
+
+    // 'cover' with a specific aspect ratio
+    const targetRatio = parseAspectRatio(imageAspectRatio);
+    let targetW = box.width;
+    let targetH = targetW / targetRatio;
+    if (targetH > box.height) {
+        targetH = box.height;
+        targetW = targetH * targetRatio;
+    }
+    const dx = box.x + (box.width - targetW) / 2;
+    const dy = box.y + (box.height - targetH) / 2;
+
+    const sourceRatio = img.width / img.height;
+    let sx = 0, sy = 0, sWidth = img.width, sHeight = img.height;
+    if (sourceRatio > targetRatio) { // Source is wider, crop sides
+        sWidth = img.height * targetRatio;
+        sx = (img.width - sWidth) / 2;
+    } else { // Source is taller, crop top/bottom
+        sHeight = img.width / targetRatio;
+        sy = (img.height - sHeight) / 2;
+    }
+    ctx.drawImage(img, sx, sy, sWidth, sHeight, dx, dy, targetW, targetH);
+};
+
+const drawCardBackground = ({ ctx, options, scale }: AlbumRenderContext, cell: Box) => {
+    ctx.save();
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.08)';
+    ctx.shadowBlur = 30 * scale;
+    ctx.shadowOffsetY = 8 * scale;
+    ctx.fillStyle = options.palette.card;
+    drawRoundRect(ctx, cell.x, cell.y, cell.width, cell.height, 24 * scale);
+    ctx.fill();
+    ctx.restore();
+};
+
+// Price pill pinned to the top-right corner of an image
+const drawPriceBadge = ({ ctx, options, scale }: AlbumRenderContext, price: string, imageBox: Box) => {
+    const fontSize = 40 * scale;
+    ctx.font = `bold ${fontSize}px ${options.typography.bodyFont}`;
+    const badgeW = ctx.measureText(price).width + 56 * scale;
+    const badgeH = fontSize + 36 * scale;
+    const margin = 24 * scale;
+    ctx.save();
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.2)';
+    ctx.shadowBlur = 16 * scale;
+    ctx.fillStyle = options.palette.primary;
+    drawRoundRect(ctx, imageBox.x + imageBox.width - badgeW - margin, imageBox.y + margin, badgeW, badgeH, badgeH / 2);
+    ctx.fill();
+    ctx.restore();
+    ctx.fillStyle = '#FFFFFF';
+    ctx.textAlign = 'center';
+    ctx.fillText(price, imageBox.x + imageBox.width - margin - badgeW / 2, imageBox.y + margin + badgeH / 2 + fontSize * 0.35);
+};
+
+const drawImageCell = (render: AlbumRenderContext, img: HTMLImageElement, label: string, cell: Box, region: Extract<LayoutRegion, { kind: 'images' }>, badge?: string | null) => {
+    const { ctx, options, scale, logoImage } = render;
+    const { palette, typography } = options;
+    const watermark = resolveWatermark(options);
+    const labelAreaHeight = region.caption === 'below' ? 100 * scale : 0;
+    const inset = region.card ? 25 * scale : 0;
+    const imageArea = { x: cell.x, y: cell.y, width: cell.width, height: cell.height - labelAreaHeight };
+    const imageBox = { x: imageArea.x + inset, y: imageArea.y + inset, width: imageArea.width - inset * 2, height: imageArea.height - inset * 2 };
+
+    if (region.card) drawCardBackground(render, cell);
+    drawFittedImage(ctx, img, imageBox, options);
+
+    if (watermark?.applyToImages) drawWatermark(ctx, imageBox, watermark, logoImage, typography.titleFont);
+
+    if (badge) drawPriceBadge(render, badge, imageBox);
+
+    if (region.caption === 'below') {
+        if (region.card) {
+            ctx.fillStyle = '#E2E8F0'; // slate-200
+            ctx.fillRect(cell.x + 30 * scale, imageArea.y + imageArea.height - 1, cell.width - 60 * scale, 1.5 * scale);
+        }
+        ctx.fillStyle = palette.textPrimary;
+        ctx.font = `500 ${32 * scale}px ${typography.bodyFont}`;
+        ctx.textAlign = 'center';
+        ctx.fillText(label, cell.x + cell.width / 2, imageArea.y + imageArea.height + (labelAreaHeight / 2) + 10 * scale);
+    } else if (region.caption === 'overlay') {
+        const bandHeight = Math.min(110 * scale, imageBox.height / 3);
+        const bandTop = imageBox.y + imageBox.height - bandHeight;
+        const gradient = ctx.createLinearGradient(0, bandTop, 0, bandTop + bandHeight);
+        gradient.addColorStop(0, 'rgba(15, 23, 42, 0)');
+        gradient.addColorStop(1, 'rgba(15, 23, 42, 0.6)');
+        ctx.fillStyle = gradient;
+        ctx.fillRect(imageBox.x, bandTop, imageBox.width, bandHeight);
+        ctx.fillStyle = '#FFFFFF';
+        ctx.font = `600 ${34 * scale}px ${typography.bodyFont}`;
+        ctx.textAlign = 'left';
+        ctx.fillText(label, imageBox.x + 30 * scale, imageBox.y + imageBox.height - 30 * scale);
+    }
+};
+
+// Menu-card entry: square thumbnail, label and a dotted leader to the right edge (or to the price)
+const drawListEntry = (render: AlbumRenderContext, img: HTMLImageElement, label: string, cell: Box, price?: string | null) => {
+    const { ctx, options, scale } = render;
+    const { palette, typography } = options;
+    const thumbSize = cell.height;
+
+    ctx.save();
+    drawRoundRect(ctx, cell.x, cell.y, thumbSize, thumbSize, 16 * scale);
+    ctx.fillStyle = palette.card;
+    ctx.fill();
+    ctx.clip();
+    drawFittedImage(ctx, img, { x: cell.x, y: cell.y, width: thumbSize, height: thumbSize }, { ...options, imageFit: 'cover', imageAspectRatio: '1:1' });
+    ctx.restore();
+
+    const textX = cell.x + thumbSize + 40 * scale;
+    const baseline = cell.y + cell.height / 2 + 12 * scale;
+    ctx.fillStyle = palette.textPrimary;
+    ctx.font = `600 ${38 * scale}px ${typography.titleFont}`;
+    ctx.textAlign = 'left';
+    ctx.fillText(label, textX, baseline);
+
+    const leaderStart = textX + ctx.measureText(label).width + 24 * scale;
+    let leaderEnd = cell.x + cell.width;
+    if (price) {
+        ctx.fillStyle = palette.primary;
+        ctx.textAlign = 'right';
+        ctx.fillText(price, leaderEnd, baseline);
+        leaderEnd -= ctx.measureText(price).width + 24 * scale;
+    }
+    if (leaderEnd > leaderStart) {
+        ctx.save();
+        ctx.strokeStyle = palette.textSecondary;
+        ctx.lineWidth = 3 * scale;
+        ctx.setLineDash([3 * scale, 12 * scale]);
+        ctx.lineCap = 'round';
+        ctx.beginPath();
+        ctx.moveTo(leaderStart, baseline);
+        ctx.lineTo(leaderEnd, baseline);
+        ctx.stroke();
+        ctx.restore();
+    }
+};
+
+const drawTextRegion = (render: AlbumRenderContext, box: Box, content: 'slogan' | 'views', images: ImageItem[]) => {
+    const { ctx, options, scale, product, display } = render;
+    const { brandInfo, palette, typography } = options;
+    ctx.textAlign = 'left';
+    ctx.fillStyle = palette.primary;
+    ctx.fillRect(box.x, box.y, 80 * scale, 6 * scale);
+
+    if (content === 'slogan') {
+        const fontSize = 64 * scale;
+        const lineHeight = fontSize * 1.2;
+        ctx.fillStyle = palette.textPrimary;
+        ctx.font = `bold ${fontSize}px ${typography.titleFont}`;
+        const description = display.showDescription ? product?.description.trim() : '';
+        const lines = wrapText(ctx, description || brandInfo.slogan || brandInfo.name, box.width);
+        lines.slice(0, Math.max(1, Math.floor((box.height - 40 * scale) / lineHeight))).forEach((line, i) => {
+            ctx.fillText(line, box.x, box.y + 40 * scale + fontSize + i * lineHeight);
+        });
+        return;
+    }
+
+    // Product details (name, SKU, price, description) come before the list of views
+    let top = box.y + 40 * scale;
+    const productName = product?.name.trim();
+    if (productName) {
+        ctx.fillStyle = palette.textPrimary;
+        ctx.font = `bold ${52 * scale}px ${typography.titleFont}`;
+        wrapText(ctx, productName, box.width).slice(0, 2).forEach(line => {
+            top += 62 * scale;
+            ctx.fillText(line, box.x, top);
+        });
+    }
+    const sku = display.showSku ? product?.sku.trim() : '';
+    const price = display.priceTag !== 'none' ? formatPrice(product) : null;
+    if (sku || price) {
+        top += 52 * scale;
+        ctx.font = `bold ${36 * scale}px ${typography.bodyFont}`;
+        if (price) {
+            ctx.fillStyle = palette.primary;
+            ctx.fillText(price, box.x, top);
+        }
+        if (sku) {
+            const skuX = price ? box.x + ctx.measureText(price).width + 30 * scale : box.x;
+            ctx.fillStyle = palette.textSecondary;
+            ctx.font = `${30 * scale}px ${typography.bodyFont}`;
+            ctx.fillText(`SKU ${sku}`, skuX, top);
+        }
+    }
+    const description = display.showDescription ? product?.description.trim() : '';
+    if (description) {
+        ctx.fillStyle = palette.textSecondary;
+        ctx.font = `${30 * scale}px ${typography.bodyFont}`;
+        wrapText(ctx, description, box.width).slice(0, 3).forEach(line => {
+            top += 42 * scale;
+            ctx.fillText(line, box.x, top);
+        });
+    }
+    if (top > box.y + 40 * scale) top += 30 * scale;
+
+    ctx.fillStyle = palette.textPrimary;
+    ctx.font = `bold ${44 * scale}px ${typography.titleFont}`;
+    ctx.fillText(`${images.length} ${images.length === 1 ? 'view' : 'views'}`, box.x, top + 50 * scale);
+    const lineHeight = 54 * scale;
+    const maxLines = Math.floor((box.y + box.height - (top + 90 * scale)) / lineHeight);
+    ctx.font = `${32 * scale}px ${typography.bodyFont}`;
+    images.slice(0, Math.max(0, maxLines)).forEach((image, i) => {
+        const y = top + 110 * scale + i * lineHeight;
+        ctx.fillStyle = palette.primary;
+        ctx.fillText(String(i + 1).padStart(2, '0'), box.x, y);
+        ctx.fillStyle = palette.textSecondary;
+        ctx.fillText(image.label, box.x + 70 * scale, y);
+    });
+};
+
 // #endregion
 
 
 /**
- * Creates a customizable, branded collage image from a set of images.
+ * Creates a customizable, branded collage image from a set of images, arranged by the
+ * layout template and sized for the output format selected in the options.
+ * `resolution` is the length of the shorter side, so a 1080 portrait album is 1080×1350.
+ * When `product` is given, captions, price tags and the header follow `options.productDisplay`.
  * @returns A promise that resolves with the data URL of the collage image.
  */
 export const createBrandedAlbum = async (
     images: ImageItem[],
     options: AlbumOptions,
     resolution: number = 2048,
-    onProgress?: (progress: number) => void
+    onProgress?: (progress: number) => void,
+    product?: ProductInfo
 ): Promise<string> => {
     onProgress?.(0);
     const canvas = document.createElement('canvas');
     const ctx = canvas.getContext('2d');
     if (!ctx) throw new Error('Could not get canvas context');
 
-    const { brandInfo, palette, typography, showWatermark, watermarkOpacity, imageAspectRatio, imageFit } = options;
+    const { brandInfo, palette, typography } = options;
+    const layout = getAlbumLayout(options.layoutId, images.length);
+    const { width, height } = getAlbumCanvasSize(getAlbumFormat(options.formatId), resolution);
     const scale = resolution / 2048;
 
-    canvas.width = resolution;
-    canvas.height = resolution;
+    canvas.width = width;
+    canvas.height = height;
 
-    // --- Dynamic Layout Calculation ---
-    const { COLS, ROWS } = getGridConfiguration(images.length);
-    const PADDING = 150 * scale;
-    const HEADER_HEIGHT = 250 * scale;
-    const FOOTER_HEIGHT = 150 * scale;
-    const GAP = 60 * scale;
-    const BORDER_RADIUS = 24 * scale;
-    
-    const availableWidth = canvas.width - (PADDING * 2) - (GAP * (COLS - 1));
-    const CELL_WIDTH = availableWidth / COLS;
-    const availableHeight = canvas.height - HEADER_HEIGHT - FOOTER_HEIGHT - (GAP * (ROWS - 1));
-    const CELL_HEIGHT = availableHeight / ROWS;
-    const LABEL_AREA_HEIGHT = 100 * scale;
-    const IMAGE_AREA_HEIGHT = CELL_HEIGHT - LABEL_AREA_HEIGHT;
+    const PADDING = layout.padding * scale;
+    const HEADER_HEIGHT = layout.headerHeight * scale;
+    const FOOTER_HEIGHT = layout.footerHeight * scale;
+    const GAP = layout.gap * scale;
+    const body: Box = { x: PADDING, y: HEADER_HEIGHT, width: canvas.width - PADDING * 2, height: canvas.height - HEADER_HEIGHT - FOOTER_HEIGHT };
 
     // 1. Background
     ctx.fillStyle = palette.background;
     ctx.fillRect(0, 0, canvas.width, canvas.height);
     onProgress?.(5);
 
-    // 2. Load images
-    const allSrcs = images.map(i => i.src);
+    // 2. Load images (edited versions, when an image has an edit stack)
+    const allSrcs = await Promise.all(images.map(resolveImageSrc));
     if (brandInfo.logoSrc) allSrcs.push(brandInfo.logoSrc);
     
     const loadedImages = await Promise.all(allSrcs.map(loadImage));
     const contentImages = loadedImages.slice(0, images.length);
     const logoImage = brandInfo.logoSrc ? loadedImages[loadedImages.length - 1] : null;
+    const display = options.productDisplay ?? DEFAULT_PRODUCT_DISPLAY;
+    const render: AlbumRenderContext = { ctx, options, scale, logoImage, product, display };
+    const price = display.priceTag !== 'none' ? formatPrice(product) : null;
     onProgress?.(20);
 
-    // 3. Header
+    // 3. Header (the brand moves to the left when the product block takes the right side)
+    const productName = product?.name.trim() ?? '';
+    const headerSku = display.showSku ? product?.sku.trim() ?? '' : '';
+    const headerPrice = display.priceTag === 'header' ? price : null;
+    const hasProductBlock = !!(productName || headerSku || headerPrice);
     const hasLogo = !!(logoImage && brandInfo.logoSrc);
     const logoSize = 100 * scale;
-    const headerContentX = hasLogo ? PADDING + logoSize + 30 * scale : canvas.width / 2;
-    const headerTextAlign = hasLogo ? 'left' : 'center';
+    const titleY = HEADER_HEIGHT * 0.6;
+    const headerContentX = hasLogo ? PADDING + logoSize + 30 * scale : hasProductBlock ? PADDING : canvas.width / 2;
+    const headerTextAlign = hasLogo || hasProductBlock ? 'left' : 'center';
 
     if (hasLogo && logoImage) {
-        ctx.drawImage(logoImage, PADDING, PADDING - logoSize / 2, logoSize, logoSize);
+        ctx.drawImage(logoImage, PADDING, titleY - logoSize / 2, logoSize, logoSize);
     }
 
     ctx.fillStyle = palette.textPrimary;
     ctx.font = `bold ${80 * scale}px ${typography.titleFont}`;
     ctx.textAlign = headerTextAlign;
-    ctx.fillText(brandInfo.name, headerContentX, PADDING + (brandInfo.slogan ? 0 : 25 * scale));
+    ctx.fillText(brandInfo.name, headerContentX, titleY + (brandInfo.slogan ? 0 : 25 * scale));
 
     if (brandInfo.slogan) {
         ctx.fillStyle = palette.textSecondary;
         ctx.font = `${40 * scale}px ${typography.bodyFont}`;
-        ctx.fillText(brandInfo.slogan, headerContentX, PADDING + 60 * scale);
+        ctx.fillText(brandInfo.slogan, headerContentX, titleY + 60 * scale);
     }
-    
-    onProgress?.(30);
-    
-    // 4. Image Cards
-    contentImages.forEach((img, index) => {
-        const row = Math.floor(index / COLS);
-        const col = index % COLS;
 
-        // Center the last row if it's not full
-        const itemsInLastRow = images.length % COLS;
-        const isLastRow = row === ROWS - 1;
-        let xOffset = 0;
-        if (isLastRow && itemsInLastRow > 0) {
-            const lastRowWidth = (itemsInLastRow * CELL_WIDTH) + ((itemsInLastRow - 1) * GAP);
-            xOffset = (availableWidth - lastRowWidth) / 2;
+    if (hasProductBlock) {
+        const right = canvas.width - PADDING;
+        ctx.textAlign = 'right';
+        if (productName) {
+            ctx.fillStyle = palette.textPrimary;
+            ctx.font = `600 ${48 * scale}px ${typography.titleFont}`;
+            ctx.fillText(productName, right, titleY);
         }
-
-        const x = PADDING + col * (CELL_WIDTH + GAP) + xOffset;
-        const y = HEADER_HEIGHT + row * (CELL_HEIGHT + GAP);
-
-        ctx.save();
-        ctx.shadowColor = 'rgba(0, 0, 0, 0.08)';
-        ctx.shadowBlur = 30 * scale;
-        ctx.shadowOffsetY = 8 * scale;
-        ctx.fillStyle = palette.card;
-        drawRoundRect(ctx, x, y, CELL_WIDTH, CELL_HEIGHT, BORDER_RADIUS);
-        ctx.fill();
-        ctx.restore();
-
-        const cellPadding = 25 * scale;
-        const imgContainerX = x + cellPadding;
-        const imgContainerY = y + cellPadding;
-        const imgContainerWidth = CELL_WIDTH - cellPadding * 2;
-        const imgContainerHeight = IMAGE_AREA_HEIGHT - cellPadding * 2;
-        
-        // --- Image Drawing Logic ---
-        if (imageFit === 'contain' || imageAspectRatio === 'auto') {
-            const imgScale = Math.min(imgContainerWidth / img.width, imgContainerHeight / img.height);
-            const scaledW = img.width * imgScale;
-            const scaledH = img.height * imgScale;
-            const imgX = imgContainerX + (imgContainerWidth - scaledW) / 2;
-            const imgY = imgContainerY + (imgContainerHeight - scaledH) / 2;
-            ctx.drawImage(img, imgX, imgY, scaledW, scaledH);
-        } else { // 'cover' with a specific aspect ratio
-            const targetRatio = parseAspectRatio(imageAspectRatio);
-            
-            let targetW = imgContainerWidth;
-            let targetH = targetW / targetRatio;
-            if (targetH > imgContainerHeight) {
-                targetH = imgContainerHeight;
-                targetW = targetH * targetRatio;
-            }
-            const dx = imgContainerX + (imgContainerWidth - targetW) / 2;
-            const dy = imgContainerY + (imgContainerHeight - targetH) / 2;
-
-            const sourceRatio = img.width / img.height;
-            let sx = 0, sy = 0, sWidth = img.width, sHeight = img.height;
-
-            if (sourceRatio > targetRatio) { // Source is wider, crop sides
-                sWidth = img.height * targetRatio;
-                sx = (img.width - sWidth) / 2;
-            } else { // Source is taller, crop top/bottom
-                sHeight = img.width / targetRatio;
-                sy = (img.height - sHeight) / 2;
-            }
-            ctx.drawImage(img, sx, sy, sWidth, sHeight, dx, dy, targetW, targetH);
+        const detailY = productName ? titleY + 60 * scale : titleY + 25 * scale;
+        let detailRight = right;
+        if (headerPrice) {
+            ctx.fillStyle = palette.primary;
+            ctx.font = `bold ${44 * scale}px ${typography.bodyFont}`;
+            ctx.fillText(headerPrice, detailRight, detailY);
+            detailRight -= ctx.measureText(headerPrice).width + 30 * scale;
         }
-        
-        if (showWatermark && logoImage) {
-            const watermarkScale = 0.25;
-            const watermarkW = Math.min(logoImage.width * watermarkScale, CELL_WIDTH * 0.3);
-            const watermarkH = (watermarkW / logoImage.width) * logoImage.height;
-            ctx.globalAlpha = watermarkOpacity;
-            ctx.drawImage(logoImage, x + CELL_WIDTH - watermarkW - cellPadding, y + IMAGE_AREA_HEIGHT - watermarkH - cellPadding, watermarkW, watermarkH);
-            ctx.globalAlpha = 1.0;
+        if (headerSku) {
+            ctx.fillStyle = palette.textSecondary;
+            ctx.font = `${30 * scale}px ${typography.bodyFont}`;
+            ctx.fillText(`SKU ${headerSku}`, detailRight, detailY);
         }
-
-        ctx.fillStyle = '#E2E8F0'; // slate-200
-        ctx.fillRect(x + 30 * scale, y + IMAGE_AREA_HEIGHT - 1, CELL_WIDTH - 60 * scale, 1.5 * scale);
-
-        ctx.fillStyle = palette.textPrimary;
-        ctx.font = `500 ${32 * scale}px ${typography.bodyFont}`;
-        ctx.textAlign = 'center';
-        ctx.fillText(images[index].label, x + CELL_WIDTH / 2, y + IMAGE_AREA_HEIGHT + (LABEL_AREA_HEIGHT / 2) + 10 * scale);
-        onProgress?.(30 + (70 * (index + 1)) / contentImages.length);
-    });
+    }
+    
+    onProgress?.(30);
+    
+    // 4. Layout regions: image regions consume the images in gallery order
+    let nextImage = 0;
+    for (const region of resolveLayoutRegions(layout, body.width / body.height)) {
+        const box = resolveArea(body, region.area);
+        if (region.kind === 'text') {
+            drawTextRegion(render, box, region.content, images);
+            continue;
+        }
+        const remaining = images.length - nextImage;
+        const count = region.take === 'rest' ? remaining : Math.min(region.take, remaining);
+        const captionHeight = region.flow === 'list' ? 220 * scale : region.caption === 'below' ? 100 * scale : 0;
+        layoutCells(box, count, region.flow, GAP, captionHeight, region.maxColumns).forEach(cell => {
+            const index = nextImage++;
+            const caption = productCaption(images[index].label, product, display);
+            if (region.flow === 'list') drawListEntry(render, contentImages[index], caption, cell, price);
+            else drawImageCell(render, contentImages[index], caption, cell, region, index === 0 && display.priceTag === 'badge' ? price : null);
+            onProgress?.(30 + (70 * (index + 1)) / contentImages.length);
+        });
+    }
 
     // 5. Footer
     ctx.fillStyle = palette.textSecondary;
     ctx.font = `italic ${30 * scale}px ${typography.bodyFont}`;
     ctx.textAlign = 'center';
     ctx.fillText(brandInfo.footerText, canvas.width / 2, canvas.height - 60 * scale);
+
+    // 6. Watermark over the whole collage
+    const watermark = resolveWatermark(options);
+    if (watermark?.applyToAlbum) drawWatermark(ctx, { x: 0, y: 0, width: canvas.width, height: canvas.height }, watermark, logoImage, typography.titleFont);
     
     onProgress?.(100);
     return canvas.toDataURL('image/png', 0.95);
 };
 
+// File name suffix for an album: the resolution for square albums, the format and pixel size otherwise
+const albumFileSuffix = (options: AlbumOptions, resolution: number): string => {
+    const format = getAlbumFormat(options.formatId);
+    if (format.id === DEFAULT_ALBUM_FORMAT_ID) return `${resolution}p`;
+    const { width, height } = getAlbumCanvasSize(format, resolution);
+    return `${format.id}_${width}x${height}`;
+};
+
 /**
  * Creates a branded album and triggers a download of the PNG file.
  */
 export const downloadBrandedAlbum = async (
     images: ImageItem[],
     options: AlbumOptions,
-    resolution: number
+    resolution: number,
+    product?: ProductInfo
 ) => {
     // Note: To provide user feedback, you might want to show a loading indicator here
-    const collageDataUrl = await createBrandedAlbum(images, options, resolution);
+    const collageDataUrl = await createBrandedAlbum(images, options, resolution, undefined, product);
     const link = document.createElement('a');
     link.href = collageDataUrl;
-    const safeName = options.brandInfo.name.replace(/\s/g, '_') || "product";
-    link.download = `album_${safeName}_${Date.now()}_${resolution}p.png`;
+    const safeName = productFileStem(product) || options.brandInfo.name.replace(/\s/g, '_') || "product";
+    link.download = `album_${safeName}_${Date.now()}_${albumFileSuffix(options, resolution)}.png`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
 };
+
+// #region: Zip Archive Utilities
+
+/** Resolutions offered by the album exporter, in pixels. */
+export const ALBUM_EXPORT_RESOLUTIONS: readonly number[] = [1080, 2048];
+
+export interface ZipEntry {
+    name: string;
+    data: Uint8Array;
+}
+
+const CRC32_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+    const binary = atob(dataUrl.split(',')[1] || dataUrl);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+};
+
+const getExtensionFromDataUrl = (dataUrl: string): string => {
+    const mime = /^data:([^;,]+)/.exec(dataUrl)?.[1] ?? 'image/png';
+    if (mime === 'image/jpeg' || mime === 'image/jpg') return 'jpg';
+    if (mime === 'image/webp') return 'webp';
+    return 'png';
+};
+
+const slugify = (text: string): string =>
+    text
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '_')
+        .replace(/^_+|_+$/g, '') || 'image';
+
+/**
+ * Builds an uncompressed (STORE) zip archive. Images are already compressed,
+ * so deflating them would cost time without saving meaningful space.
+ */
+export const buildZipArchive = (entries: ZipEntry[]): Blob => {
+    const encoder = new TextEncoder();
+    const { time, date } = toDosDateTime(new Date());
+    const localParts: Uint8Array[] = [];
+    const centralParts: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const nameBytes = encoder.encode(entry.name);
+        const crc = crc32(entry.data);
+        const size = entry.data.length;
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034b50, true);
+        local.setUint16(4, 20, true);       // version needed to extract
+        local.setUint16(6, 0x0800, true);   // UTF-8 file names
+        local.setUint16(8, 0, true);        // STORE
+        local.setUint16(10, time, true);
+        local.setUint16(12, date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, size, true);
+        local.setUint32(22, size, true);
+        local.setUint16(26, nameBytes.length, true);
+        local.setUint16(28, 0, true);
+        localParts.push(new Uint8Array(local.buffer), nameBytes, entry.data);
+
+        const central = new DataView(new ArrayBuffer(46));
+        central.setUint32(0, 0x02014b50, true);
+        central.setUint16(4, 20, true);     // version made by
+        central.setUint16(6, 20, true);
+        central.setUint16(8, 0x0800, true);
+        central.setUint16(10, 0, true);
+        central.setUint16(12, time, true);
+        central.setUint16(14, date, true);
+        central.setUint32(16, crc, true);
+        central.setUint32(20, size, true);
+        central.setUint32(24, size, true);
+        central.setUint16(28, nameBytes.length, true);
+        central.setUint32(42, offset, true);
+        centralParts.push(new Uint8Array(central.buffer), nameBytes);
+
+        offset += 30 + nameBytes.length + size;
+    }
+
+    const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...localParts, ...centralParts, new Uint8Array(end.buffer)] as BlobPart[], { type: 'application/zip' });
+};
+
+// Returns a function that yields a unique archive path for a base name and extension
+const createNameRegistry = () => {
+    const usedNames = new Set<string>();
+    return (base: string, ext: string) => {
+        let name = `${base}.${ext}`;
+        for (let n = 2; usedNames.has(name); n++) name = `${base}_${n}.${ext}`;
+        usedNames.add(name);
+        return name;
+    };
+};
+
+/**
+ * Adds every image plus the branded collage at each resolution under `folder`,
+ * returning the manifest section describing what was written. File names start with
+ * the product's SKU and name when the product has them.
+ */
+const addAlbumEntries = async (
+    entries: ZipEntry[],
+    uniqueName: (base: string, ext: string) => string,
+    folder: string,
+    images: ImageItem[],
+    options: AlbumOptions,
+    resolutions: readonly number[],
+    product?: ProductInfo,
+    onAlbumRendered?: (index: number) => void
+) => {
+    const stem = productFileStem(product);
+    const stemPrefix = stem ? `${stem}_` : '';
+    const finalSrcs = await Promise.all(images.map(async image => watermarkForExport(await resolveImageSrc(image), options)));
+    const manifestImages = images.map((image, index) => {
+        const prefix = String(index).padStart(2, '0');
+        const fileName = uniqueName(`${folder}images/${stemPrefix}${prefix}_${slugify(image.label)}`, getExtensionFromDataUrl(finalSrcs[index]));
+        entries.push({ name: fileName, data: dataUrlToBytes(finalSrcs[index]) });
+        return { id: image.id, label: image.label, file: fileName, edited: !!image.edits?.length };
+    });
+
+    const format = getAlbumFormat(options.formatId);
+    const albums: { resolution: number; format: string; width: number; height: number; file: string }[] = [];
+    for (const [i, resolution] of resolutions.entries()) {
+        const collageDataUrl = await createBrandedAlbum(images, options, resolution, undefined, product);
+        const fileName = uniqueName(`${folder}album/${stemPrefix}album_${albumFileSuffix(options, resolution)}`, 'png');
+        entries.push({ name: fileName, data: dataUrlToBytes(collageDataUrl) });
+        albums.push({ resolution, format: format.id, ...getAlbumCanvasSize(format, resolution), file: fileName });
+        onAlbumRendered?.(i);
+    }
+
+    return { product: hasProductInfo(product) ? toManifestProduct(product) : undefined, images: manifestImages, albums };
+};
+
+// products.csv row for a manifest section, when the section has product data
+const toCsvRow = (product: ProductInfo | undefined, content: Awaited<ReturnType<typeof addAlbumEntries>>) =>
+    hasProductInfo(product) ? [{ product, images: content.images.map(image => image.file), albums: content.albums.map(album => album.file) }] : [];
+
+const downloadZip = (entries: ZipEntry[], fileName: string) => {
+    const url = URL.createObjectURL(buildZipArchive(entries));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// #endregion
+
+/**
+ * Bundles the original, every generated variation, the branded collage at each
+ * export resolution and a JSON manifest into a single zip and downloads it.
+ * With product data, the zip also gets a products.csv for e-commerce imports.
+ */
+export const downloadAlbumZip = async (
+    images: ImageItem[],
+    options: AlbumOptions,
+    resolutions: readonly number[] = ALBUM_EXPORT_RESOLUTIONS,
+    onProgress?: (progress: number) => void,
+    product?: ProductInfo
+) => {
+    onProgress?.(0);
+    const entries: ZipEntry[] = [];
+    const content = await addAlbumEntries(entries, createNameRegistry(), '', images, options, resolutions, product,
+        (i) => onProgress?.(10 + (80 * (i + 1)) / resolutions.length));
+
+    const manifest = {
+        brand: options.brandInfo.name,
+        createdAt: new Date().toISOString(),
+        ...content,
+    };
+    entries.push({ name: 'manifest.json', data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+    const csvRows = toCsvRow(product, content);
+    if (csvRows.length > 0) entries.push({ name: 'products.csv', data: new TextEncoder().encode(buildProductsCsv(csvRows)) });
+
+    const safeName = productFileStem(product) || options.brandInfo.name.replace(/\s/g, '_') || "product";
+    downloadZip(entries, `album_${safeName}_${Date.now()}.zip`);
+    onProgress?.(100);
+};
+
+/**
+ * Exports a whole batch queue as one zip: a folder per product with its images and
+ * album (all sharing the same album style), plus a top-level manifest.
+ */
+export const downloadBatchZip = async (
+    jobs: BatchJob[],
+    options: AlbumOptions,
+    resolutions: readonly number[] = [2048],
+    onProgress?: (progress: number) => void
+) => {
+    onProgress?.(0);
+    const entries: ZipEntry[] = [];
+    const uniqueName = createNameRegistry();
+    const exportable = jobs.filter(job => job.images.length > 0);
+
+    const products = [];
+    const csvRows = [];
+    for (const [i, job] of exportable.entries()) {
+        const folder = `${String(i + 1).padStart(3, '0')}_${productFileStem(job.product) || slugify(job.name)}/`;
+        const albumImages = [{ id: 'original', src: job.sourceImage, label: 'Original' }, ...job.images];
+        const content = await addAlbumEntries(entries, uniqueName, folder, albumImages, options, resolutions, job.product);
+        products.push({ id: job.id, name: job.name, status: job.status, ...content });
+        csvRows.push(...toCsvRow(job.product, content));
+        onProgress?.((100 * (i + 1)) / exportable.length);
+    }
+
+    const manifest = {
+        brand: options.brandInfo.name,
+        createdAt: new Date().toISOString(),
+        products,
+    };
+    entries.push({ name: 'manifest.json', data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+    if (csvRows.length > 0) entries.push({ name: 'products.csv', data: new TextEncoder().encode(buildProductsCsv(csvRows)) });
+
+    const safeName = options.brandInfo.name.replace(/\s/g, '_') || "product";
+    downloadZip(entries, `batch_${safeName}_${Date.now()}.zip`);
+    onProgress?.(100);
+};
+
+/**
+ * Packs marketplace exports into one zip: a folder per profile with the processed
+ * files, plus a report listing every check and violation.
+ */
+export const downloadMarketplaceZip = async (
+    results: ProcessedExport[],
+    profiles: readonly ExportProfile[],
+    productName: string
+) => {
+    const entries: ZipEntry[] = [];
+    const uniqueName = createNameRegistry();
+
+    const report = [];
+    for (const profile of profiles) {
+        const folder = `${slugify(profile.name)}/`;
+        const files = [];
+        for (const result of results.filter(r => r.profileId === profile.id)) {
+            const extension = result.fileName.split('.').pop() ?? 'jpg';
+            const fileName = uniqueName(`${folder}${result.fileName.slice(0, -(extension.length + 1))}`, extension);
+            entries.push({ name: fileName, data: new Uint8Array(await result.blob.arrayBuffer()) });
+            files.push({
+                file: fileName,
+                label: result.image.label,
+                bytes: result.blob.size,
+                fillRatio: result.fillRatio,
+                violations: result.checks.filter(check => !check.passed).map(({ id, severity, message }) => ({ id, severity, message })),
+            });
+        }
+        report.push({ profile: profile.name, width: profile.width, height: profile.height, format: profile.format, files });
+    }
+    entries.push({
+        name: 'report.json',
+        data: new TextEncoder().encode(JSON.stringify({ product: productName, createdAt: new Date().toISOString(), profiles: report }, null, 2)),
+    });
+
+    downloadZip(entries, `marketplace_${slugify(productName)}_${Date.now()}.zip`);
+};
@@ -1,14 +1,206 @@
 
 
+export interface AnglePreset {
+  id: string;
+  name: string;
+  prompt: string; // só o texto do ângulo; instruções base são adicionadas na geração
+  thumbnail: string | null; // data URL reduzida
+  scene?: ScenePreset; // presente só nos ângulos expandidos pela matriz ângulo × cenário
+}
+
+// Cenário/fundo combinado com qualquer ângulo por composePrompt
+export interface ScenePreset {
+  id: string;
+  name: string;
+  prompt: string; // pode conter {{brandColor}}, trocado por Palette.primary
+}
+
+export type ReferenceView = 'front' | 'back' | 'side' | 'top' | 'detail' | 'other';
+
+// Foto adicional do mesmo produto, além da imagem principal
+export interface ReferenceImage {
+  id: string;
+  src: string; // data URL
+  mimeType: string;
+  view: ReferenceView;
+}
+
+export interface GeneratedVariation {
+  src: string; // data URL base64, ex: data:image/png;base64,....
+  angle: AnglePreset;
+  metadata?: GeneratedImageMetadata;
+  prompt?: string; // prompt enviado, sem a descrição das referências
+}
+
+export type GenerationErrorKind = 'safety' | 'blocked' | 'quota' | 'network' | 'invalid-input' | 'no-image' | 'unknown';
+
+export interface GenerationFailure {
+  angle: AnglePreset;
+  angleIndex: number; // posição do ângulo na execução
+  kind: GenerationErrorKind;
+  attempts: number;
+  retryable: boolean;
+  detail: string; // mensagem bruta do provider, para diagnóstico
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number; // atraso da 1ª nova tentativa; dobra a cada tentativa
+  maxDelayMs: number; // teto do backoff e do Retry-After honrado
+  jitter: number; // 0..1, fração aleatória aplicada ao atraso
+}
+
+export interface RetryEvent {
+  angle?: AnglePreset;
+  attempt: number; // tentativa que falhou
+  maxAttempts: number;
+  delayMs: number; // espera até a próxima tentativa
+  kind: GenerationErrorKind;
+  rateLimited: boolean; // o atraso veio de uma dica Retry-After do servidor
+}
+
+interface GenerationEventBase {
+  angle: AnglePreset;
+  angleIndex: number;
+}
+
+// Eventos por ângulo emitidos por streamImageVariations, na ordem em que acontecem
+export type GenerationEvent =
+  | (GenerationEventBase & { type: 'started' })
+  | (GenerationEventBase & { type: 'attempt'; attempt: number })
+  | (GenerationEventBase & { type: 'retrying'; retry: RetryEvent })
+  | (GenerationEventBase & { type: 'succeeded'; variation: GeneratedVariation; candidates: GeneratedVariation[]; durationMs: number })
+  | (GenerationEventBase & { type: 'failed'; failure: GenerationFailure; durationMs: number });
+
+export type GenerationSlotStatus = 'queued' | 'running' | 'retrying';
+
+// Vaga ainda sem imagem na galeria durante uma execução
+export interface GenerationSlot {
+  angle: AnglePreset;
+  angleIndex: number;
+  status: GenerationSlotStatus;
+  attempt: number;
+  startedAt?: number; // epoch ms
+  retryAt?: number; // epoch ms da próxima tentativa
+}
+
 export interface BatchCallbackPayload {
-  successes: string[]; // data URLs base64, ex: data:image/png;base64,....
-  failures: string[]; // mensagens de erro legíveis
+  successes: GeneratedVariation[];
+  failures: GenerationFailure[];
 }
 
 export interface ImageItem {
   id: string;
   src: string;
   label: string;
+  angle?: AnglePreset; // ângulo que gerou a imagem (ausente no original)
+  metadata?: GeneratedImageMetadata;
+  originalSrc?: string; // imagem antes da remoção de fundo; `src` passa a ser o PNG transparente
+  edits?: ImageEdit[]; // pilha de edições não destrutivas aplicada sobre `src`, na ordem
+  versions?: ImageVersion[]; // todas as versões do ângulo, inclusive a ativa (ausente = versão única)
+  activeVersionId?: string; // versão escolhida como final; é a que vai para o álbum e as exportações
+  quality?: QualityReport; // comparação com a referência; ausente = ainda não verificada
+}
+
+export type QualityCheckId = 'blank' | 'color' | 'hash' | 'silhouette';
+
+export interface QualityCheck {
+  id: QualityCheckId;
+  passed: boolean;
+  value: number; // 0..1, 1 = igual à referência
+  message: string;
+}
+
+export interface QualityReport {
+  score: number; // 0..100; abaixo do limite, a imagem provavelmente se afastou do produto
+  checks: QualityCheck[];
+  checkedAt: number; // epoch ms
+}
+
+export type ImageVersionKind = 'generation' | 'regeneration' | 'refinement' | 'edit';
+
+// Estado salvo de uma versão; os campos da versão ativa (a escolhida para o álbum) também ficam no próprio ImageItem
+export interface ImageVersion {
+  id: string;
+  kind: ImageVersionKind;
+  src: string;
+  prompt?: string;
+  metadata?: GeneratedImageMetadata;
+  originalSrc?: string;
+  edits?: ImageEdit[];
+  quality?: QualityReport;
+  parentId?: string; // versão que foi refinada para chegar a esta
+  instruction?: string; // pedido de refinamento que gerou a versão
+  createdAt: number; // epoch ms
+}
+
+export interface ImageAdjustments {
+  exposure: number; // EV, -2..2
+  contrast: number; // -100..100
+  temperature: number; // -100 (frio)..100 (quente)
+  tint: number; // -100 (verde)..100 (magenta)
+  saturation: number; // -100..100
+  sharpen: number; // 0..100
+}
+
+// Cada operação vale para a imagem resultante das anteriores
+export type ImageEdit =
+  | { type: 'crop'; x: number; y: number; width: number; height: number } // frações 0..1
+  | { type: 'rotate'; quarterTurns: 1 | 2 | 3 } // sentido horário
+  | { type: 'flip'; axis: 'horizontal' | 'vertical' }
+  | { type: 'adjust'; adjustments: ImageAdjustments };
+
+export type BatchJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface BatchJob {
+  id: string;
+  name: string; // nome do arquivo, sem extensão
+  sourceImage: string; // data URL
+  sourceMimeType: string;
+  angleIds: string[];
+  images: ImageItem[];
+  failures: GenerationFailure[];
+  status: BatchJobStatus;
+  error?: string;
+  product?: ProductInfo; // ausente = só o nome do arquivo
+}
+
+export interface ProjectSession {
+  id: string;
+  name: string;
+  createdAt: number; // epoch ms
+  updatedAt: number;
+  sourceImage: string; // data URL
+  sourceMimeType: string;
+  references?: ReferenceImage[]; // ausente em sessões antigas
+  angles: AnglePreset[]; // prompts usados na última execução
+  providerId: string;
+  modelId?: string;
+  settings?: GenerationSettings; // ausente em sessões antigas
+  product?: ProductInfo; // ausente em sessões antigas
+  images: ImageItem[];
+  failures: GenerationFailure[];
+}
+
+// Dados do produto para álbuns, nomes de arquivo e manifestos de importação
+export interface ProductInfo {
+  sku: string;
+  name: string;
+  price?: number; // ausente = sem preço
+  currency: string; // código ISO 4217, ex.: "BRL"
+  description: string; // descrição curta
+  tags: string[];
+}
+
+export type ProductCaptionMode = 'angle' | 'product' | 'productAndAngle';
+export type PriceTagStyle = 'none' | 'header' | 'badge';
+
+// O que o álbum mostra dos dados do produto
+export interface ProductDisplayOptions {
+  caption: ProductCaptionMode;
+  priceTag: PriceTagStyle;
+  showSku: boolean;
+  showDescription: boolean;
 }
 
 export interface Palette {
@@ -31,12 +223,102 @@ export interface BrandInfo {
   footerText: string;
 }
 
+export type AlbumLayoutId = 'grid' | 'hero' | 'strip' | 'magazine' | 'lookbook' | 'specSheet' | 'menuCard';
+
+export type AlbumFormatId = 'square' | 'portrait' | 'story' | 'landscape' | 'pinterest' | 'a4' | 'letter';
+
+export type WatermarkPosition =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+export type WatermarkRepeat = 'single' | 'tiled' | 'diagonal';
+
+// Subconjunto de GlobalCompositeOperation oferecido na interface
+export type WatermarkBlendMode = 'source-over' | 'multiply' | 'screen' | 'overlay' | 'soft-light' | 'difference';
+
+export interface WatermarkOptions {
+  content: 'logo' | 'text'; // 'logo' usa o logo da marca
+  text: string;
+  color: string; // só para texto
+  position: WatermarkPosition; // só para 'single'
+  repeat: WatermarkRepeat;
+  rotation: number; // graus; em 'diagonal' gira a grade inteira
+  margin: number; // fração do lado menor da área marcada
+  size: number; // largura do carimbo, em fração do lado menor da área marcada
+  opacity: number; // 0..1
+  blendMode: WatermarkBlendMode;
+  applyToImages: boolean; // cada imagem do álbum e cada arquivo exportado
+  applyToAlbum: boolean; // uma vez sobre a colagem inteira
+}
+
 export interface AlbumOptions {
   brandInfo: BrandInfo;
   palette: Palette;
   typography: Typography;
+  layoutId?: AlbumLayoutId; // ausente = grade
+  formatId?: AlbumFormatId; // ausente = quadrado
+  productDisplay?: ProductDisplayOptions; // ausente = só o nome das vistas
   showWatermark: boolean;
-  watermarkOpacity: number;
+  watermarkOpacity: number; // legado: opacidade usada enquanto `watermark` está ausente
+  watermark?: WatermarkOptions; // ausente = logo no canto inferior direito de cada imagem
   imageAspectRatio: 'auto' | '1:1' | '4:3' | '3:4';
   imageFit: 'contain' | 'cover';
 }
+
+export interface GeneratedImageMetadata {
+  provider: string;
+  modelId?: string;
+  finishReason?: string;
+  durationMs?: number;
+  seed?: number; // só quando o provider aplicou a seed
+  resolution?: OutputResolution; // só quando o provider aplicou a resolução
+  candidateIndex?: number; // posição entre os candidatos do ângulo (0 = primeiro)
+  candidateCount?: number;
+}
+
+export type OutputResolution = '1K' | '2K' | '4K';
+
+// Parâmetros de geração escolhidos no painel e salvos com o projeto
+export interface GenerationSettings {
+  modelId?: string; // ausente = modelo padrão do provider
+  concurrency: number; // pedidos simultâneos (tamanho do lote)
+  candidatesPerAngle: number; // com mais de um, fica o de melhor score de fidelidade
+  resolution?: OutputResolution;
+  seed?: number; // ausente = aleatória; candidatos usam seed, seed + 1...
+}
+
+export interface GeneratedImage {
+  data: string; // base64 cru, sem prefixo de data URL
+  mimeType: string;
+  metadata: GeneratedImageMetadata;
+}
+
+export interface ProviderGenerateOptions {
+  modelId?: string;
+  signal?: AbortSignal;
+  references?: { data: string; mimeType: string }[]; // fotos extras (base64 puro), enviadas depois da principal
+  seed?: number; // ignorada por providers sem `capabilities.seed`
+  resolution?: OutputResolution; // ignorada por providers que não a listam em `capabilities.resolutions`
+  attempt?: number; // tentativa atual (1 = primeira), repassada pelo laço de retry
+}
+
+// O que o painel de configurações pode oferecer para cada provider
+export interface ProviderCapabilities {
+  models?: readonly string[]; // o primeiro é o padrão
+  seed?: boolean;
+  resolutions?: readonly OutputResolution[];
+  resolutionModels?: readonly string[]; // modelos que aplicam a resolução; ausente = todos
+}
+
+export interface ImageGenerationProvider {
+  readonly id: string;
+  readonly label: string;
+  readonly capabilities?: ProviderCapabilities;
+  generate(
+    base64Data: string,
+    mimeType: string,
+    prompt: string,
+    options?: ProviderGenerateOptions
+  ): Promise<GeneratedImage>;
+}
@@ -12,7 +12,15 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER),
+        'process.env.IMAGE_API_URL': JSON.stringify(env.IMAGE_API_URL),
+        'process.env.IMAGE_API_KEY': JSON.stringify(env.IMAGE_API_KEY),
+        'process.env.IMAGE_API_MODEL': JSON.stringify(env.IMAGE_API_MODEL),
+        'process.env.MOCK_LATENCY_MS': JSON.stringify(env.MOCK_LATENCY_MS),
+        'process.env.MOCK_FAILURE_RATE': JSON.stringify(env.MOCK_FAILURE_RATE),
+        'process.env.IMAGE_MAX_CONCURRENCY': JSON.stringify(env.IMAGE_MAX_CONCURRENCY),
+        'process.env.IMAGE_REQUESTS_PER_MINUTE': JSON.stringify(env.IMAGE_REQUESTS_PER_MINUTE)
       },
       resolve: {
         alias: {